@@ -1,31 +1,70 @@
 
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import type { Bill, Booking, View } from './types';
+import type { Bill, Booking, Customer, View, BackupFile, DataSet } from './types';
 import useBills from './hooks/useBills';
 import useServices from './hooks/useServices';
 import useBookings from './hooks/useBookings';
 import useCustomers from './hooks/useCustomers';
 import { useShopSettings } from './hooks/useShopSettings';
+import useSnapshots from './hooks/useSnapshots';
+import useTrash from './hooks/useTrash';
+import useSync from './hooks/useSync';
+import useIntegrityCheck from './hooks/useIntegrityCheck';
+import useBillArchive from './hooks/useBillArchive';
+import useStaff from './hooks/useStaff';
 import BillList from './components/BillList';
 import BillEditor from './components/BillEditor';
 import Dashboard from './components/Dashboard';
 import ServiceManager from './components/ServiceManager';
 import CustomerList from './components/CustomerList';
+import type { CustomerStat } from './components/CustomerList';
 import RevenueCalendar from './components/RevenueCalendar';
-import { ListBulletIcon, TagIcon, HomeIcon, UsersIcon, CloudArrowDownIcon, CloudArrowUpIcon, Cog6ToothIcon, SwatchIcon, BellIcon, ArrowRightOnRectangleIcon, CheckIcon, TrashIcon } from './components/icons';
+import ImportMergeModal from './components/ImportMergeModal';
+import BackupValidationModal from './components/BackupValidationModal';
+import SnapshotsModal from './components/SnapshotsModal';
+import PassphraseModal from './components/PassphraseModal';
+import TrashModal from './components/TrashModal';
+import SyncModal from './components/SyncModal';
+import IntegrityModal from './components/IntegrityModal';
+import ArchiveModal from './components/ArchiveModal';
+import BankAccountModal from './components/BankAccountModal';
+import PayrollModal from './components/PayrollModal';
+import { ListBulletIcon, TagIcon, HomeIcon, UsersIcon, CloudArrowDownIcon, CloudArrowUpIcon, Cog6ToothIcon, SwatchIcon, BellIcon, ArrowRightOnRectangleIcon, CheckIcon, TrashIcon, ClockIcon, LockClosedIcon, CloudIcon, ArchiveBoxIcon, QrCodeIcon, BanknotesIcon } from './components/icons';
 import { formatSpecificDateTime } from './utils/dateUtils';
+import { reportStorageError } from './utils/db';
+import { readFullDataSet, readArchivedBills, archiveBillsBefore, getArchiveSummary } from './utils/archive';
+import { loadSnapshot } from './utils/snapshots';
+import { getTechnicianNames } from './utils/tips';
+import { bookingToBill } from './utils/staff';
+import { createTrashGroupId } from './utils/trash';
+import { belongsToCustomer, findCustomerByName, customerNameKey } from './utils/customerLinks';
+import type { CustomerLinkGroup } from './utils/customerLinks';
+import { encryptBackup, decryptBackup, isEncryptedBackup, BackupPassphraseError } from './utils/backupCrypto';
+import type { EncryptedBackup } from './utils/backupCrypto';
+import { createBackup, upgradeBackup, getBackupSchemaVersion, isSupportedSchemaVersion } from './utils/schema';
+import { validateBackup, stripInvalidRecords } from './utils/backupValidation';
+import type { BackupValidationReport } from './utils/backupValidation';
 
 const NOTIFIED_BOOKINGS_KEY = 'nailSpaNotifiedBookings';
 
 const App: React.FC = () => {
-  const { bills, addBill, updateBill, deleteBill, restoreBills } = useBills();
+  const { bills, addBill, updateBill, updateBills, deleteBill, restoreBills, reloadBills } = useBills();
   const { 
-      services, addService, updateService, deleteService, restoreServices,
+      services, addService, updateService, deleteService, restoreServices, importServices,
       categories, addCategory, updateCategory, deleteCategory, restoreCategories, reorderCategories
   } = useServices();
-  const { bookings, addBooking, updateBooking, deleteBooking } = useBookings();
-  const { customers, addCustomer, updateCustomer, deleteCustomer } = useCustomers();
-  const { shopName, updateShopName, billTheme, updateBillTheme } = useShopSettings();
+  const { bookings, addBooking, updateBooking, updateBookings, deleteBooking, removeBooking, restoreBookings, reloadBookings } = useBookings();
+  const { customers, addCustomer, updateCustomer, importCustomers, mergeCustomers, deleteCustomer, restoreCustomers, reloadCustomers } = useCustomers();
+  const { shopName, updateShopName, billTheme, updateBillTheme, bankAccount, updateBankAccount, commission, updateCommission } = useShopSettings();
+  const { staff, addTechnician, updateTechnician, restoreStaff } = useStaff();
+  const { snapshots, retentionDays, updateRetentionDays, refreshSnapshots } = useSnapshots();
+  const {
+      trashEntries, trashRetentionDays, refreshTrash,
+      restoreTrashGroup, purgeTrashGroup, emptyTrash, updateTrashRetentionDays
+  } = useTrash();
+  const { syncConfig, syncStatus, syncError, pendingCount, syncNow, connect, disconnect } = useSync();
+  const { report: integrityReport, isScanning, repairingCheck, runScan, repair: repairIntegrity } = useIntegrityCheck();
+  const { archiveSummary, isArchiving, archiveBills, unarchiveBills, relinkArchivedBills, deleteArchivedBills } = useBillArchive();
   
   const [currentView, setCurrentView] = useState<View>('dashboard');
   const [selectedBill, setSelectedBill] = useState<Bill | null>(null);
@@ -39,8 +78,24 @@ const App: React.FC = () => {
   const [isEditingShopName, setIsEditingShopName] = useState(false);
   const [tempShopName, setTempShopName] = useState('');
 
+  // Backup waiting for the user to choose merge or overwrite
+  const [pendingImport, setPendingImport] = useState<BackupFile | null>(null);
+  // Archived bills, read while a backup is waiting so the merge preview can compare against them
+  const [archivedBillsForImport, setArchivedBillsForImport] = useState<Bill[] | null>(null);
+  // Backup with invalid records, waiting for the user to accept importing only the valid ones
+  const [pendingValidation, setPendingValidation] = useState<{ raw: any; report: BackupValidationReport } | null>(null);
+  const [isSnapshotsModalOpen, setIsSnapshotsModalOpen] = useState(false);
+  const [isTrashModalOpen, setIsTrashModalOpen] = useState(false);
+  const [isSyncModalOpen, setIsSyncModalOpen] = useState(false);
+  const [isIntegrityModalOpen, setIsIntegrityModalOpen] = useState(false);
+  const [isArchiveModalOpen, setIsArchiveModalOpen] = useState(false);
+  // Passphrase entry for exporting an encrypted backup, or for opening one that was uploaded
+  const [passphrasePrompt, setPassphrasePrompt] = useState<{ mode: 'encrypt' } | { mode: 'decrypt'; backup: EncryptedBackup } | null>(null);
+
   // State for Theme Selector
   const [isThemeModalOpen, setIsThemeModalOpen] = useState(false);
+  const [isBankAccountModalOpen, setIsBankAccountModalOpen] = useState(false);
+  const [isPayrollModalOpen, setIsPayrollModalOpen] = useState(false);
 
   // Scroll Aware Navigation State
   const [isNavVisible, setIsNavVisible] = useState(true);
@@ -65,6 +120,20 @@ const App: React.FC = () => {
   useEffect(() => {
       localStorage.setItem(NOTIFIED_BOOKINGS_KEY, JSON.stringify([...notifiedBookingIds]));
   }, [notifiedBookingIds]);
+
+  // Keep reminders that were already shown in another tab from popping up again here
+  useEffect(() => {
+      const handleStorage = (event: StorageEvent) => {
+          if (event.key !== NOTIFIED_BOOKINGS_KEY || !event.newValue) return;
+          try {
+              setNotifiedBookingIds(new Set(JSON.parse(event.newValue)));
+          } catch (error) {
+              console.error("Error reading notified bookings from another tab", error);
+          }
+      };
+      window.addEventListener('storage', handleStorage);
+      return () => window.removeEventListener('storage', handleStorage);
+  }, []);
   
   // Snooze Logic
   const [isSnoozeMode, setIsSnoozeMode] = useState(false);
@@ -150,74 +219,121 @@ const App: React.FC = () => {
   }, [bookings, notifiedBookingIds]);
 
 
-  const handleDownloadData = useCallback(() => {
-    try {
-      const billsData = localStorage.getItem('nailSpaBills') || '[]';
-      const servicesData = localStorage.getItem('nailSpaServices') || '[]';
-      const categoriesData = localStorage.getItem('nailSpaCategories') || '[]';
-      const settingsData = localStorage.getItem('nailSpaShopSettings') || '{"shopName": "Nail Spa"}';
-      const bookingsData = localStorage.getItem('nailSpaBookings') || '[]';
-      const customersData = localStorage.getItem('nailSpaCustomers') || '[]';
-      
-      const backupData = {
-        bills: JSON.parse(billsData),
-        services: JSON.parse(servicesData),
-        categories: JSON.parse(categoriesData),
-        settings: JSON.parse(settingsData),
-        bookings: JSON.parse(bookingsData),
-        customers: JSON.parse(customersData)
-      };
+  const buildBackupJson = useCallback(async () => {
+    const data = await readFullDataSet();
+    const backupData = createBackup({
+      ...data,
+      settings: data.settings || { shopName: 'Nail Spa' },
+    }, [...notifiedBookingIds]);
+    return JSON.stringify(backupData, null, 2);
+  }, [notifiedBookingIds]);
+
+  const downloadJsonFile = (json: string, fileName: string) => {
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
 
-      const blob = new Blob([JSON.stringify(backupData, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDownloadData = useCallback(async () => {
+    try {
       const date = new Date().toISOString().split('T')[0];
-      
-      a.href = url;
-      a.download = `nail-spa-backup-${date}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadJsonFile(await buildBackupJson(), `nail-spa-backup-${date}.json`);
       setIsSettingsMenuOpen(false);
     } catch (error) {
       console.error("Failed to download data", error);
       alert("Đã xảy ra lỗi khi tải xuống dữ liệu.");
     }
-  }, []);
+  }, [buildBackupJson]);
+
+  const handleDownloadEncryptedData = async (passphrase: string): Promise<string | null> => {
+    try {
+      const encrypted = await encryptBackup(await buildBackupJson(), passphrase);
+      const date = new Date().toISOString().split('T')[0];
+      downloadJsonFile(JSON.stringify(encrypted), `nail-spa-backup-${date}.encrypted.json`);
+      setPassphrasePrompt(null);
+      return null;
+    } catch (error) {
+      console.error("Failed to download encrypted data", error);
+      return 'Đã xảy ra lỗi khi mã hóa dữ liệu.';
+    }
+  };
+
+  // Replaces every entity with the contents of an (already upgraded) backup.
+  // Resolves once all writes are committed, so callers can safely reload afterwards.
+  const restoreFromBackup = async (data: BackupFile) => {
+    // Backups hold the archived bills too; they go back into the store and replace the archive below,
+    // once they are written, so a failed restore leaves the archive as it was
+    const archiveCutoff = (await getArchiveSummary())?.cutoff;
+    const writes: Promise<unknown>[] = [
+        restoreBills(data.bills),
+        restoreBookings(data.bookings),
+        restoreCustomers(data.customers),
+        restoreServices(data.services),
+    ];
+    // Very old backups have no categories; keep the current ones rather than leaving every service uncategorized
+    if (data.categories.length > 0) {
+        writes.push(restoreCategories(data.categories));
+    }
+    if (data.staff) {
+        writes.push(restoreStaff(data.staff));
+    }
+    if (data.settings) {
+        if (data.settings.shopName) writes.push(updateShopName(data.settings.shopName));
+        if (data.settings.billTheme) writes.push(updateBillTheme(data.settings.billTheme));
+        if (data.settings.bankAccount) writes.push(updateBankAccount(data.settings.bankAccount));
+        if (data.settings.commission) writes.push(updateCommission(data.settings.commission));
+    }
+    if (data.notifiedBookingIds) {
+        localStorage.setItem(NOTIFIED_BOOKINGS_KEY, JSON.stringify(data.notifiedBookingIds));
+        setNotifiedBookingIds(new Set(data.notifiedBookingIds));
+    }
+    await Promise.all(writes);
+    if (archiveCutoff) await archiveBillsBefore(archiveCutoff, { replace: true });
+  };
 
   const handleTriggerUpload = () => {
     fileInputRef.current?.click();
   };
 
+  // Checks a parsed (plain-text) backup and hands it to the validation or import modal.
+  const processBackup = (raw: any) => {
+    if (!isSupportedSchemaVersion(getBackupSchemaVersion(raw))) {
+      alert('Tệp sao lưu được tạo từ phiên bản ứng dụng mới hơn. Vui lòng cập nhật ứng dụng trước khi khôi phục.');
+      return;
+    }
+
+    const report = validateBackup(raw);
+    if (report.fatal.length > 0) {
+      alert(`Tệp không hợp lệ:\n${report.fatal.join('\n')}`);
+    } else if (report.issues.length > 0) {
+      setPendingValidation({ raw, report });
+    } else {
+      // Older backups are upgraded step by step to the current schema before restoring
+      setPendingImport(upgradeBackup(raw));
+    }
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
         const text = e.target?.result as string;
-        const data = JSON.parse(text);
-
-        if (Array.isArray(data.bills) && Array.isArray(data.services)) {
-          if (window.confirm('Thao tác này sẽ ghi đè lên toàn bộ dữ liệu hiện tại. Bạn có chắc chắn muốn tiếp tục không?')) {
-            restoreBills(data.bills);
-            restoreServices(data.services);
-            if (data.categories && Array.isArray(data.categories)) {
-                restoreCategories(data.categories);
-            }
-            if (data.settings) {
-                if (data.settings.shopName) updateShopName(data.settings.shopName);
-                if (data.settings.billTheme) updateBillTheme(data.settings.billTheme);
-            }
-            // Note: Currently restore functions for bookings/customers are not exposed from hooks but data structure supports it.
-            // For a production app, we should add restoreBookings and restoreCustomers to hooks.
-            alert('Dữ liệu đã được khôi phục thành công.');
-            window.location.reload(); 
-          }
+        const raw = JSON.parse(text);
+
+        if (isEncryptedBackup(raw)) {
+          setPassphrasePrompt({ mode: 'decrypt', backup: raw });
         } else {
-          alert('Tệp không hợp lệ. Vui lòng đảm bảo tệp chứa dữ liệu hóa đơn và dịch vụ.');
+          processBackup(raw);
         }
       } catch (error) {
         console.error("Failed to upload data", error);
@@ -232,6 +348,120 @@ const App: React.FC = () => {
     reader.readAsText(file);
   };
 
+  const handleDecryptUpload = async (passphrase: string): Promise<string | null> => {
+    if (passphrasePrompt?.mode !== 'decrypt') return null;
+    try {
+      const raw = JSON.parse(await decryptBackup(passphrasePrompt.backup, passphrase));
+      setPassphrasePrompt(null);
+      processBackup(raw);
+      return null;
+    } catch (error) {
+      if (error instanceof BackupPassphraseError) {
+        return 'Mật khẩu không đúng. Vui lòng thử lại.';
+      }
+      console.error("Failed to decrypt backup", error);
+      return 'Không thể giải mã tệp. Tệp có thể bị hỏng.';
+    }
+  };
+
+  const handleImportValidRecords = () => {
+    if (!pendingValidation) return;
+    const { raw, report } = pendingValidation;
+    setPendingValidation(null);
+    setPendingImport(upgradeBackup(stripInvalidRecords(raw, report)));
+  };
+
+  const currentDataSet = useMemo<DataSet>(
+    () => ({ bills, bookings, customers, services, categories, staff }),
+    [bills, bookings, customers, services, categories, staff]
+  );
+
+  // Deleted records are not brought back by a merge
+  const trashedKeys = useMemo(() => new Set(trashEntries.map(entry => entry.id)), [trashEntries]);
+
+  useEffect(() => {
+    if (!pendingImport) {
+      setArchivedBillsForImport(null);
+      return;
+    }
+    let cancelled = false;
+    readArchivedBills()
+      .then(archived => {
+        if (!cancelled) setArchivedBillsForImport(archived);
+      })
+      .catch(error => {
+        console.error("Error reading archived bills", error);
+        if (!cancelled) setArchivedBillsForImport([]);
+      });
+    return () => { cancelled = true; };
+  }, [pendingImport]);
+
+  const handleOverwriteImport = async () => {
+    if (!pendingImport) return;
+    try {
+      // Wait for IndexedDB to commit before reloading, otherwise the writes may be lost.
+      await restoreFromBackup(pendingImport);
+      alert('Dữ liệu đã được khôi phục thành công.');
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to restore data", error);
+      alert('Đã xảy ra lỗi khi khôi phục dữ liệu.');
+    }
+  };
+
+  const handleMergeImport = async (merged: DataSet) => {
+    if (!pendingImport) return;
+    try {
+      await Promise.all([
+        restoreBills(merged.bills),
+        restoreBookings(merged.bookings),
+        restoreCustomers(merged.customers),
+        restoreServices(merged.services),
+        restoreCategories(merged.categories),
+        restoreStaff(merged.staff || staff),
+      ]);
+      // Old bills from the backup land in the bills store; move them into the archive with the rest
+      const archiveCutoff = (await getArchiveSummary())?.cutoff;
+      if (archiveCutoff) await archiveBillsBefore(archiveCutoff);
+      if (pendingImport.notifiedBookingIds) {
+        setNotifiedBookingIds(prev => new Set([...prev, ...pendingImport.notifiedBookingIds!]));
+      }
+      setPendingImport(null);
+      alert('Đã gộp dữ liệu thành công.');
+    } catch (error) {
+      console.error("Failed to merge data", error);
+      alert('Đã xảy ra lỗi khi gộp dữ liệu.');
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshotId: string) => {
+    try {
+      const backup = await loadSnapshot(snapshotId);
+      if (!backup) {
+        alert('Không tìm thấy dữ liệu của bản sao lưu này.');
+        refreshSnapshots();
+        return;
+      }
+      // Snapshots taken before an app update may be on an older schema
+      await restoreFromBackup(upgradeBackup(backup));
+      alert('Dữ liệu đã được khôi phục thành công.');
+      window.location.reload();
+    } catch (error) {
+      console.error("Failed to restore snapshot", error);
+      alert('Đã xảy ra lỗi khi khôi phục dữ liệu.');
+    }
+  };
+
+  const handleArchiveBills = async (cutoff: string) => {
+    const moved = await archiveBills(cutoff);
+    if (moved !== null) alert(`Đã lưu trữ ${moved} hóa đơn.`);
+  };
+
+  const handleUnarchiveBills = async () => {
+    const restored = await unarchiveBills();
+    if (restored !== null) alert(`Đã đưa ${restored} hóa đơn trở lại danh sách.`);
+  };
+
   // Handlers for Shop Name Editing
   const openShopNameEditor = () => {
     setTempShopName(shopName);
@@ -261,6 +491,13 @@ const App: React.FC = () => {
     setIsSettingsMenuOpen(false);
   };
 
+  // Active staff first, then names that only appear on earlier tips
+  const technicianNames = useMemo(() => {
+    const rosterNames = staff.filter(t => t.active).map(t => t.name);
+    const rosterKeys = new Set(rosterNames.map(name => name.toLowerCase()));
+    return [...rosterNames, ...getTechnicianNames(bills).filter(name => !rosterKeys.has(name.toLowerCase()))];
+  }, [staff, bills]);
+
   const customerNames = useMemo(() => {
     const names = bills.map(bill => bill.customerName.trim());
     const bookingNames = bookings.map(b => b.customerName.trim());
@@ -328,39 +565,118 @@ const App: React.FC = () => {
 
   const handleConvertToBill = (booking: Booking) => {
       if (window.confirm(`Xác nhận chuyển lịch hẹn của "${booking.customerName}" thành hóa đơn?`)) {
-          const { id, ...billData } = booking;
           const currentTimestamp = new Date().toISOString();
           const newBill = {
-              ...billData,
+              ...bookingToBill(booking),
               date: currentTimestamp
           };
           addBill(newBill); 
-          deleteBooking(booking.id);
+          removeBooking(booking.id);
           alert("Đã chuyển thành hóa đơn thành công!");
       }
   };
 
   // --- Cascade Delete Customer Logic ---
   const handleFullCustomerDelete = (customer: { id?: string, name: string }) => {
+      // Everything goes to the trash as one group, so it can be restored together
+      const trashGroupId = createTrashGroupId();
+
       // 1. Delete all bills for this customer
-      const customerNameNormalized = customer.name.toLowerCase().trim();
-      
       bills.forEach(b => {
-          if (b.customerName.toLowerCase().trim() === customerNameNormalized) {
-              deleteBill(b.id);
+          if (belongsToCustomer(b, customer, customers)) {
+              deleteBill(b.id, trashGroupId);
           }
       });
 
       // 2. Delete all bookings for this customer
       bookings.forEach(b => {
-          if (b.customerName.toLowerCase().trim() === customerNameNormalized) {
-              deleteBooking(b.id);
+          if (belongsToCustomer(b, customer, customers)) {
+              deleteBooking(b.id, trashGroupId);
           }
       });
 
-      // 3. Delete profile if exists
+      // 3. Archived bills go to the same group; the archive summary is recomputed without them
+      if (archiveSummary) {
+          deleteArchivedBills(b => belongsToCustomer(b, customer, customers), trashGroupId);
+      }
+
+      // 4. Delete profile if exists
       if (customer.id) {
-          deleteCustomer(customer.id);
+          deleteCustomer(customer.id, trashGroupId);
+      }
+  };
+
+  // Assigns bills and bookings that share a name with several profiles to the one the user picked.
+  const handleLinkRecords = async (group: CustomerLinkGroup, customerId: string) => {
+      const billIds = new Set(group.billIds);
+      const bookingIds = new Set(group.bookingIds);
+      await Promise.all([
+          updateBills(bills.filter(b => billIds.has(b.id)).map(b => ({ ...b, customerId }))),
+          updateBookings(bookings.filter(b => bookingIds.has(b.id)).map(b => ({ ...b, customerId }))),
+          // Archived bills with the same name were just as ambiguous; they go to the same profile
+          relinkArchivedBills(bill =>
+              !bill.customerId && customerNameKey(bill.customerName) === group.nameKey ? { ...bill, customerId } : null),
+      ]);
+  };
+
+  // Keeps one customer and points every bill and booking of the others at it.
+  const handleMergeCustomers = async (members: CustomerStat[], survivor: CustomerStat, fields: { phone: string; dob: string }) => {
+      // Worked out before the profiles change, while unlinked records can still be matched by name
+      const ofMembers = <T extends Bill>(records: T[]) =>
+          records.filter(r => members.some(m => belongsToCustomer(r, m, customers)));
+      const memberBills = ofMembers(bills);
+      const memberBookings = ofMembers(bookings);
+
+      const saved = await mergeCustomers(
+          { id: survivor.id, name: survivor.name, phone: fields.phone, dob: fields.dob },
+          members.flatMap(m => (m.id ? [m.id] : []))
+      );
+      await Promise.all([
+          updateBills(memberBills.map(b => ({ ...b, customerId: saved.id }))),
+          updateBookings(memberBookings.map(b => ({ ...b, customerId: saved.id }))),
+          // Folds the members' archived totals into the survivor too; matched against the profiles as they were before the merge
+          relinkArchivedBills(bill =>
+              bill.customerId !== saved.id && members.some(m => belongsToCustomer(bill, m, customers)) ? { ...bill, customerId: saved.id } : null),
+      ]);
+  };
+
+  // A second profile with an existing name would make that name's unlinked history ambiguous,
+  // so it is linked to the existing profile first.
+  const handleAddCustomer = (customer: Omit<Customer, 'id'>) => {
+      const existing = findCustomerByName(customer.name, customers);
+      if (existing) {
+          const nameKey = customerNameKey(existing.name);
+          const unlinked = <T extends Bill>(records: T[]) =>
+              records.filter(r => !r.customerId && customerNameKey(r.customerName) === nameKey).map(r => ({ ...r, customerId: existing.id }));
+          updateBills(unlinked(bills)).catch(error => reportStorageError("Error linking bills", error));
+          updateBookings(unlinked(bookings)).catch(error => reportStorageError("Error linking bookings", error));
+      }
+      addCustomer(customer);
+  };
+
+  // Unlinked history under the old name would stop counting for the profile once it is renamed,
+  // so it is linked to the profile first, archived bills included.
+  const handleUpdateCustomer = (customer: Customer) => {
+      const previous = customers.find(c => c.id === customer.id);
+      const nameKey = previous && customerNameKey(previous.name);
+      if (previous && nameKey !== customerNameKey(customer.name) && findCustomerByName(previous.name, customers)?.id === customer.id) {
+          const link = <T extends Bill>(record: T): T | null =>
+              !record.customerId && customerNameKey(record.customerName) === nameKey ? { ...record, customerId: customer.id } : null;
+          const linkAll = <T extends Bill>(records: T[]) => records.flatMap(r => link(r) || []);
+          updateBills(linkAll(bills)).catch(error => reportStorageError("Error linking bills", error));
+          updateBookings(linkAll(bookings)).catch(error => reportStorageError("Error linking bookings", error));
+          relinkArchivedBills(link);
+      }
+      updateCustomer(customer);
+  };
+
+  const handleRestoreTrashGroup = async (groupId: string) => {
+      try {
+          await restoreTrashGroup(groupId);
+          await Promise.all([reloadBills(), reloadBookings(), reloadCustomers()]);
+      } catch (error) {
+          console.error("Failed to restore from trash", error);
+          alert('Đã xảy ra lỗi khi khôi phục dữ liệu.');
       }
   };
 
@@ -377,11 +693,10 @@ const App: React.FC = () => {
 
   const confirmDueBooking = () => {
       if (currentDueBooking) {
-          const { id, ...billData } = currentDueBooking;
           // Set to current time when converting
-          const newBill = { ...billData, date: new Date().toISOString() };
+          const newBill = { ...bookingToBill(currentDueBooking), date: new Date().toISOString() };
           addBill(newBill);
-          deleteBooking(currentDueBooking.id);
+          removeBooking(currentDueBooking.id);
           processNextBooking();
       }
   };
@@ -432,7 +747,7 @@ const App: React.FC = () => {
   const renderView = () => {
     switch (currentView) {
       case 'dashboard':
-        return <Dashboard bills={bills} onViewRevenueHistory={() => setCurrentView('revenue-calendar')} />;
+        return <Dashboard bills={bills} staff={staff} onViewRevenueHistory={() => setCurrentView('revenue-calendar')} />;
       case 'editor':
         return <BillEditor 
             bill={selectedBill || selectedBooking} 
@@ -441,6 +756,8 @@ const App: React.FC = () => {
             services={services} 
             customerNames={customerNames} 
             customers={customers} // Pass full customers list
+            technicianNames={technicianNames}
+            staff={staff}
             categories={categories}
             isBooking={isBookingEditor}
         />;
@@ -455,17 +772,26 @@ const App: React.FC = () => {
             updateCategory={updateCategory}
             deleteCategory={deleteCategory}
             reorderCategories={reorderCategories}
+            importServices={importServices}
+            staff={staff}
+            addTechnician={addTechnician}
+            updateTechnician={updateTechnician}
         />;
       case 'customers':
         return <CustomerList 
           bills={bills} 
+          archivedCustomers={archiveSummary?.customers}
           customers={customers}
-          onAddCustomer={addCustomer}
-          onUpdateCustomer={updateCustomer}
+          bookings={bookings}
+          onAddCustomer={handleAddCustomer}
+          onUpdateCustomer={handleUpdateCustomer}
           onDeleteCustomer={handleFullCustomerDelete}
+          onImportCustomers={importCustomers}
+          onLinkRecords={handleLinkRecords}
+          onMergeCustomers={handleMergeCustomers}
         />;
       case 'revenue-calendar':
-        return <RevenueCalendar bills={bills} onBack={() => setCurrentView('dashboard')} onSelectDate={(date) => { setTargetDate(date); setCurrentView('list'); }} />;
+        return <RevenueCalendar bills={bills} archivedDaily={archiveSummary?.daily} onBack={() => setCurrentView('dashboard')} onSelectDate={(date) => { setTargetDate(date); setCurrentView('list'); }} />;
       case 'list':
       default:
         return <BillList 
@@ -476,6 +802,9 @@ const App: React.FC = () => {
             shopName={shopName} 
             initialDate={targetDate}
             onClearTargetDate={() => setTargetDate(null)}
+            staff={staff}
+            archiveCutoff={archiveSummary?.cutoff}
+            loadArchivedBills={readArchivedBills}
             
             bookings={bookings}
             onEditBooking={handleEditBooking}
@@ -512,6 +841,99 @@ const App: React.FC = () => {
         className="hidden"
       />
       
+      {/* Backup Validation Report Modal */}
+      {pendingValidation && (
+        <BackupValidationModal
+          report={pendingValidation.report}
+          onImportValid={handleImportValidRecords}
+          onClose={() => setPendingValidation(null)}
+        />
+      )}
+
+      {/* Backup Import (Merge / Overwrite) Modal */}
+      {pendingImport && archivedBillsForImport && (
+        <ImportMergeModal
+          current={currentDataSet}
+          archivedBills={archivedBillsForImport}
+          trashedKeys={trashedKeys}
+          incoming={pendingImport}
+          onMerge={handleMergeImport}
+          onOverwrite={handleOverwriteImport}
+          onClose={() => setPendingImport(null)}
+        />
+      )}
+
+      {/* Backup Passphrase Modal */}
+      {passphrasePrompt && (
+        <PassphraseModal
+          mode={passphrasePrompt.mode}
+          onSubmit={passphrasePrompt.mode === 'encrypt' ? handleDownloadEncryptedData : handleDecryptUpload}
+          onClose={() => setPassphrasePrompt(null)}
+        />
+      )}
+
+      {/* Device Sync Modal */}
+      {isSyncModalOpen && (
+        <SyncModal
+          config={syncConfig}
+          status={syncStatus}
+          error={syncError}
+          pendingCount={pendingCount}
+          onConnect={connect}
+          onDisconnect={disconnect}
+          onSyncNow={syncNow}
+          onClose={() => setIsSyncModalOpen(false)}
+        />
+      )}
+
+      {/* Trash Modal */}
+      {isTrashModalOpen && (
+        <TrashModal
+          entries={trashEntries}
+          retentionDays={trashRetentionDays}
+          onChangeRetentionDays={updateTrashRetentionDays}
+          onRestoreGroup={handleRestoreTrashGroup}
+          onPurgeGroup={purgeTrashGroup}
+          onEmptyTrash={emptyTrash}
+          onClose={() => setIsTrashModalOpen(false)}
+        />
+      )}
+
+      {/* Data Integrity Modal */}
+      {isIntegrityModalOpen && (
+        <IntegrityModal
+          report={integrityReport}
+          isScanning={isScanning}
+          repairingCheck={repairingCheck}
+          onRescan={runScan}
+          onRepair={repairIntegrity}
+          onClose={() => setIsIntegrityModalOpen(false)}
+        />
+      )}
+
+      {/* Automatic Snapshots Modal */}
+      {isSnapshotsModalOpen && (
+        <SnapshotsModal
+          snapshots={snapshots}
+          retentionDays={retentionDays}
+          onChangeRetentionDays={updateRetentionDays}
+          onRestore={handleRestoreSnapshot}
+          onClose={() => setIsSnapshotsModalOpen(false)}
+        />
+      )}
+
+      {/* Bill Archive Modal */}
+      {isArchiveModalOpen && (
+        <ArchiveModal
+          bills={bills}
+          summary={archiveSummary}
+          isArchiving={isArchiving}
+          onArchive={handleArchiveBills}
+          onUnarchive={handleUnarchiveBills}
+          onClose={() => setIsArchiveModalOpen(false)}
+        />
+      )}
+
       {/* Shop Name Edit Modal */}
       {isEditingShopName && (
         <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-[100] p-4">
@@ -582,6 +1004,36 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* Bank Account Modal */}
+      {isBankAccountModalOpen && (
+        <BankAccountModal
+          bankAccount={bankAccount}
+          onSave={(account) => {
+            updateBankAccount(account);
+            setIsBankAccountModalOpen(false);
+          }}
+          onClose={() => setIsBankAccountModalOpen(false)}
+        />
+      )}
+
+      {/* Payroll Modal */}
+      {isPayrollModalOpen && (
+        <PayrollModal
+          bills={bills}
+          staff={staff}
+          services={services}
+          categories={categories}
+          commission={commission}
+          onSaveCommission={(settings) => {
+            updateCommission(settings);
+            alert('Đã lưu cách tính hoa hồng.');
+          }}
+          shopName={shopName}
+          archiveCutoff={archiveSummary?.cutoff}
+          onClose={() => setIsPayrollModalOpen(false)}
+        />
+      )}
+
       {/* Booking Due Notification Popup */}
       {currentDueBooking && !showDeleteConfirmForDue && (
           <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-[110] p-4 animate-in fade-in duration-300">
@@ -728,6 +1180,16 @@ const App: React.FC = () => {
                         <CloudArrowDownIcon className="w-5 h-5 text-primary" />
                         <span>Sao lưu dữ liệu</span>
                       </button>
+                      <button
+                        onClick={() => {
+                            setPassphrasePrompt({ mode: 'encrypt' });
+                            setIsSettingsMenuOpen(false);
+                        }}
+                        className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
+                      >
+                        <LockClosedIcon className="w-5 h-5 text-primary" />
+                        <span>Sao lưu có mật khẩu</span>
+                      </button>
                       <button 
                         onClick={handleTriggerUpload}
                         className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
@@ -735,6 +1197,70 @@ const App: React.FC = () => {
                          <CloudArrowUpIcon className="w-5 h-5 text-primary" />
                         <span>Khôi phục dữ liệu</span>
                       </button>
+                      <button
+                        onClick={() => {
+                            refreshSnapshots();
+                            setIsSnapshotsModalOpen(true);
+                            setIsSettingsMenuOpen(false);
+                        }}
+                        className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
+                      >
+                        <ClockIcon className="w-5 h-5 text-primary" />
+                        <span>Sao lưu tự động</span>
+                      </button>
+                      <button
+                        onClick={() => {
+                            refreshTrash();
+                            setIsTrashModalOpen(true);
+                            setIsSettingsMenuOpen(false);
+                        }}
+                        className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
+                      >
+                        <TrashIcon className="w-5 h-5 text-primary" />
+                        <span>Thùng rác</span>
+                      </button>
+                      <button
+                        onClick={() => {
+                            setIsSyncModalOpen(true);
+                            setIsSettingsMenuOpen(false);
+                        }}
+                        className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
+                      >
+                        <CloudIcon className="w-5 h-5 text-primary" />
+                        <span>Đồng bộ thiết bị</span>
+                        {syncStatus === 'error' && <span className="ml-auto w-2 h-2 rounded-full bg-red-500" />}
+                      </button>
+                      <button
+                        onClick={() => {
+                            runScan();
+                            setIsIntegrityModalOpen(true);
+                            setIsSettingsMenuOpen(false);
+                        }}
+                        className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
+                      >
+                        <CheckIcon className="w-5 h-5 text-primary" />
+                        <span>Kiểm tra dữ liệu</span>
+                      </button>
+                      <button
+                        onClick={() => {
+                            setIsArchiveModalOpen(true);
+                            setIsSettingsMenuOpen(false);
+                        }}
+                        className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
+                      >
+                        <ArchiveBoxIcon className="w-5 h-5 text-primary" />
+                        <span>Lưu trữ hóa đơn cũ</span>
+                      </button>
+                      <button
+                        onClick={() => {
+                            setIsPayrollModalOpen(true);
+                            setIsSettingsMenuOpen(false);
+                        }}
+                        className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
+                      >
+                        <BanknotesIcon className="w-5 h-5 text-primary" />
+                        <span>Bảng lương thợ</span>
+                      </button>
                       
                       <div className="border-t border-gray-100 my-2"></div>
                       
@@ -751,6 +1277,16 @@ const App: React.FC = () => {
                         <SwatchIcon className="w-5 h-5 text-primary" />
                         <span>Mẫu Hóa Đơn</span>
                       </button>
+                      <button
+                        onClick={() => {
+                            setIsBankAccountModalOpen(true);
+                            setIsSettingsMenuOpen(false);
+                        }}
+                        className="w-full text-left flex items-center gap-3 px-3 py-2.5 text-sm text-text-main rounded-2xl hover:bg-gray-50 transition-colors"
+                      >
+                        <QrCodeIcon className="w-5 h-5 text-primary" />
+                        <span>Tài khoản chuyển khoản</span>
+                      </button>
                     </div>
                   </div>
                 )}
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import type { Bill } from '../types';
+import type { ArchiveSummary } from '../utils/archive';
+import { getLocalDateKey } from '../utils/archive';
+import { formatCurrency, formatDateTime } from '../utils/dateUtils';
+
+interface ArchiveModalProps {
+  bills: Bill[];
+  summary: ArchiveSummary | null;
+  isArchiving: boolean;
+  onArchive: (cutoff: string) => void;
+  onUnarchive: () => void;
+  onClose: () => void;
+}
+
+const CUTOFF_MONTH_OPTIONS = [3, 6, 12, 24];
+
+// First day of the month, `months` months before the current one
+const getCutoffDate = (months: number): string => {
+  const now = new Date();
+  return getLocalDateKey(new Date(now.getFullYear(), now.getMonth() - months, 1).toISOString());
+};
+
+const formatDateKey = (dateKey: string) => dateKey.split('-').reverse().join('/');
+
+const ArchiveModal: React.FC<ArchiveModalProps> = ({ bills, summary, isArchiving, onArchive, onUnarchive, onClose }) => {
+  const [months, setMonths] = useState(12);
+  const cutoff = getCutoffDate(months);
+
+  const toArchive = useMemo(
+    () => bills.filter(bill => getLocalDateKey(bill.date) < cutoff),
+    [bills, cutoff]
+  );
+  const toArchiveRevenue = toArchive.reduce((sum, bill) => sum + bill.total, 0);
+
+  const handleArchive = () => {
+    if (window.confirm(`Lưu trữ ${toArchive.length} hóa đơn trước ngày ${formatDateKey(cutoff)}?`)) onArchive(cutoff);
+  };
+
+  const handleUnarchive = () => {
+    if (window.confirm('Đưa tất cả hóa đơn đã lưu trữ trở lại danh sách hóa đơn?')) onUnarchive();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-md rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-text-main">Lưu Trữ Hóa Đơn Cũ</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <p className="text-sm text-text-light">
+            Hóa đơn cũ được chuyển khỏi danh sách hóa đơn để ứng dụng chạy nhanh hơn. Chúng vẫn được tính trong lịch doanh thu,
+            tổng chi tiêu của khách hàng và tệp sao lưu. Việc lưu trữ chỉ áp dụng trên thiết bị này.
+          </p>
+
+          {summary && (
+            <div className="bg-gray-50 rounded-2xl p-4 space-y-2">
+              <h4 className="font-bold text-text-main">Đã lưu trữ</h4>
+              <p className="text-sm text-text-main">
+                {summary.billCount} hóa đơn trước ngày {formatDateKey(summary.cutoff)} · {formatCurrency(summary.revenue)}
+              </p>
+              <p className="text-xs text-text-light">Lần cuối: {formatDateTime(summary.archivedAt)}</p>
+              <button
+                onClick={handleUnarchive}
+                disabled={isArchiving}
+                className="w-full py-2.5 bg-white rounded-xl text-sm font-bold text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+              >
+                Khôi phục tất cả về danh sách
+              </button>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm font-medium text-text-main">Lưu trữ hóa đơn cũ hơn</span>
+            <select
+              value={months}
+              onChange={e => setMonths(parseInt(e.target.value))}
+              className="px-3 py-2 bg-gray-50 rounded-xl outline-none text-sm font-semibold text-text-main"
+            >
+              {CUTOFF_MONTH_OPTIONS.map(option => <option key={option} value={option}>{option} tháng</option>)}
+            </select>
+          </div>
+
+          <p className="text-sm text-text-main">
+            {toArchive.length > 0
+              ? `${toArchive.length} hóa đơn trước ngày ${formatDateKey(cutoff)} (${formatCurrency(toArchiveRevenue)}) sẽ được lưu trữ.`
+              : `Không có hóa đơn nào trước ngày ${formatDateKey(cutoff)}.`}
+          </p>
+
+          <button
+            onClick={handleArchive}
+            disabled={isArchiving || toArchive.length === 0}
+            className="w-full py-3 bg-primary text-white rounded-xl font-bold hover:bg-primary-hover disabled:bg-gray-300"
+          >
+            {isArchiving ? 'Đang xử lý...' : 'Lưu trữ'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveModal;
@@ -0,0 +1,80 @@
+import React from 'react';
+import type { BackupValidationReport, BackupCollection } from '../utils/backupValidation';
+import { BACKUP_COLLECTIONS } from '../utils/backupValidation';
+
+interface BackupValidationModalProps {
+  report: BackupValidationReport;
+  onImportValid: () => void;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS: Record<BackupCollection, string> = {
+  bills: 'Hóa đơn',
+  bookings: 'Lịch hẹn',
+  customers: 'Khách hàng',
+  services: 'Dịch vụ',
+  categories: 'Loại dịch vụ',
+  staff: 'Thợ',
+};
+
+const BackupValidationModal: React.FC<BackupValidationModalProps> = ({ report, onImportValid, onClose }) => {
+  const hasValidRecords = report.counts.bills.valid > 0 || report.counts.services.valid > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4">
+      <div className="bg-white w-full max-w-lg rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-red-600">Tệp Sao Lưu Có Lỗi</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <p className="text-text-light text-sm">
+            Một số bản ghi trong tệp không hợp lệ. Bạn có thể chỉ nhập các bản ghi hợp lệ, những bản ghi lỗi sẽ bị bỏ qua.
+          </p>
+
+          {/* Counts per collection */}
+          <div className="grid grid-cols-2 gap-3">
+            {BACKUP_COLLECTIONS.filter(c => report.counts[c].total > 0).map(collection => {
+              const { total, valid } = report.counts[collection];
+              return (
+                <div key={collection} className="bg-gray-50 p-3 rounded-2xl text-sm">
+                  <p className="font-bold text-text-main">{COLLECTION_LABELS[collection]}</p>
+                  <p className={valid < total ? 'text-red-500' : 'text-emerald-600'}>{valid}/{total} hợp lệ</p>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Issue list */}
+          <div className="space-y-2">
+            {report.issues.map(issue => (
+              <div key={`${issue.collection}-${issue.index}`} className="border border-red-100 bg-red-50/50 rounded-2xl p-3 text-sm">
+                <p className="font-semibold text-text-main">
+                  {COLLECTION_LABELS[issue.collection]} #{issue.index + 1}
+                  {issue.id && <span className="text-xs text-gray-400 font-normal ml-2">{issue.id}</span>}
+                </p>
+                <ul className="list-disc pl-5 mt-1 text-red-600 text-xs space-y-0.5">
+                  {issue.errors.map((error, i) => <li key={i}>{error}</li>)}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 bg-gray-100 rounded-2xl font-bold text-gray-600">Hủy</button>
+          <button
+            onClick={onImportValid}
+            disabled={!hasValidRecords}
+            className="flex-1 py-3 bg-primary text-white rounded-2xl font-bold hover:bg-primary-hover shadow-lg shadow-primary/30 disabled:bg-gray-300 disabled:shadow-none"
+          >
+            Nhập phần hợp lệ
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupValidationModal;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import type { BankAccount } from '../types';
+import { VIETQR_BANKS, getBankName, isBankAccountComplete } from '../utils/vietqr';
+import VietQrCode from './VietQrCode';
+
+interface BankAccountModalProps {
+  bankAccount?: BankAccount;
+  onSave: (account: BankAccount | undefined) => void;
+  onClose: () => void;
+}
+
+const inputClasses = "w-full px-4 py-3 border border-gray-100 rounded-2xl focus:outline-none focus:ring-2 focus:ring-primary/50 bg-gray-50 text-text-main placeholder-gray-400";
+
+const BankAccountModal: React.FC<BankAccountModalProps> = ({ bankAccount, onSave, onClose }) => {
+  const [bin, setBin] = useState(bankAccount?.bin || '');
+  const [accountNumber, setAccountNumber] = useState(bankAccount?.accountNumber || '');
+  const [accountName, setAccountName] = useState(bankAccount?.accountName || '');
+
+  const draft: BankAccount = { bin: bin.trim(), accountNumber: accountNumber.replace(/\s/g, ''), accountName: accountName.trim().toUpperCase() };
+  const isComplete = isBankAccountComplete(draft);
+  const bankName = getBankName(draft.bin);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isComplete) {
+      alert("Mã ngân hàng (BIN) phải gồm 6 chữ số và số tài khoản chỉ gồm chữ và số (tối đa 19 ký tự).");
+      return;
+    }
+    onSave(draft);
+  };
+
+  const handleRemove = () => {
+    if (window.confirm("Xóa tài khoản ngân hàng? Hóa đơn sẽ không còn mã QR chuyển khoản.")) onSave(undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-[100] p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-floating w-full max-w-sm max-h-[90vh] overflow-y-auto">
+        <h2 className="text-xl font-bold text-text-main mb-1">Tài Khoản Nhận Chuyển Khoản</h2>
+        <p className="text-sm text-text-light mb-4">Hóa đơn sẽ có mã VietQR để khách quét và chuyển đúng số tiền.</p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text-light mb-1">Ngân hàng</label>
+            <select
+              value={VIETQR_BANKS.some(bank => bank.bin === bin) ? bin : ''}
+              onChange={(e) => setBin(e.target.value)}
+              className={inputClasses}
+            >
+              <option value="">Chọn ngân hàng hoặc nhập mã BIN</option>
+              {VIETQR_BANKS.map(bank => (
+                <option key={bank.bin} value={bank.bin}>{bank.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={bin}
+              onChange={(e) => setBin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              className={`${inputClasses} mt-2`}
+              placeholder="Mã BIN (6 chữ số)"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-light mb-1">Số tài khoản</label>
+            <input type="text" inputMode="numeric" value={accountNumber} onChange={(e) => setAccountNumber(e.target.value)} className={inputClasses} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-text-light mb-1">Chủ tài khoản</label>
+            <input type="text" value={accountName} onChange={(e) => setAccountName(e.target.value)} className={inputClasses} placeholder="NGUYEN VAN A" />
+          </div>
+
+          {isComplete && (
+            <div className="flex flex-col items-center bg-gray-50 rounded-2xl p-4">
+              <VietQrCode account={draft} className="w-32 h-32" />
+              <p className="text-xs text-text-light mt-2 text-center">
+                Quét thử bằng ứng dụng ngân hàng để kiểm tra{bankName ? ` (${bankName})` : ''}
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center gap-2">
+            {bankAccount ? (
+              <button type="button" onClick={handleRemove} className="text-sm font-semibold text-red-500 hover:underline">
+                Xóa tài khoản
+              </button>
+            ) : <span />}
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-5 py-2.5 text-sm font-semibold text-text-main bg-gray-100 rounded-2xl hover:bg-gray-200 transition-colors"
+              >
+                Hủy
+              </button>
+              <button
+                type="submit"
+                className="px-5 py-2.5 text-sm font-semibold text-white bg-primary rounded-2xl hover:bg-primary-hover shadow-lg shadow-primary/30 transition-all"
+              >
+                Lưu
+              </button>
+            </div>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default BankAccountModal;
@@ -1,8 +1,13 @@
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Bill, ServiceItem, PredefinedService, ServiceCategory, Booking, Customer } from '../types';
+import type { Bill, ServiceItem, PredefinedService, ServiceCategory, Booking, Customer, Payment, PaymentMethod, TipSplit, Technician, ItemAdjustment } from '../types';
 import { TrashIcon, ChevronDownIcon, ChevronUpIcon, CakeIcon } from './icons';
 import { getTodayDateString, formatCurrency, getCurrentTimeString } from '../utils/dateUtils';
+import { customerNameKey, findCustomerByName, findCustomerForRecord } from '../utils/customerLinks';
+import { formatPhone, isPhoneQuery, phoneMatchesQuery } from '../utils/phone';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, sumPayments } from '../utils/payments';
+import { linkTipSplits, sumTipSplits } from '../utils/tips';
+import { ITEM_ADJUSTMENT_LABELS, SUGGESTED_ADJUSTMENT_REASONS, getItemDiscount, getItemListPrice, priceItem } from '../utils/discounts';
 
 interface BillEditorProps {
   bill: Bill | null;
@@ -12,15 +17,23 @@ interface BillEditorProps {
   categories?: ServiceCategory[];
   customerNames: string[];
   customers?: Customer[];
+  technicianNames?: string[]; // Suggestions when splitting a tip
+  staff?: Technician[];
   isBooking?: boolean;
 }
 
-const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, services, categories, customerNames, customers = [], isBooking = false }) => {
+interface CustomerSuggestion {
+  name: string;
+  customer?: Customer; // Set for saved profiles; plain names come from old bills and bookings
+}
+
+const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, services, categories, customerNames, customers = [], technicianNames = [], staff = [], isBooking = false }) => {
   const [customerName, setCustomerName] = useState('');
+  const [customerId, setCustomerId] = useState<string | undefined>(undefined); // Profile picked from the suggestions
   const [date, setDate] = useState(getTodayDateString());
   const [time, setTime] = useState(getCurrentTimeString());
   const [items, setItems] = useState<ServiceItem[]>([]);
-  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<CustomerSuggestion[]>([]);
   const [isSuggestionsVisible, setIsSuggestionsVisible] = useState(false);
   const [note, setNote] = useState('');
   const [birthdayAlert, setBirthdayAlert] = useState<string | null>(null);
@@ -29,12 +42,25 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
   const [discountValue, setDiscountValue] = useState<number>(0);
   const [discountType, setDiscountType] = useState<'percent' | 'amount'>('amount');
 
+  // Technician the customer booked with; new items are assigned to them
+  const [bookingTechnicianId, setBookingTechnicianId] = useState<string | undefined>(undefined);
+
+  // Tip states: paid on top of the total, optionally split between technicians
+  const [tip, setTip] = useState<number>(0);
+  const [tipSplits, setTipSplits] = useState<TipSplit[]>([]);
+
+  // Payment states: one method for the whole amount, or a split across several.
+  // No method means none was recorded (bills from before payments existed) and none is saved.
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod | null>('cash');
+  const [splitPayments, setSplitPayments] = useState<Payment[] | null>(null);
+
   // Collapsible State
   const [isCustomerInfoOpen, setIsCustomerInfoOpen] = useState(true);
 
   useEffect(() => {
     if (bill) {
       setCustomerName(bill.customerName);
+      setCustomerId(bill.customerId);
       const billDate = new Date(bill.date);
       setDate(billDate.toISOString().split('T')[0]);
       const hours = String(billDate.getHours()).padStart(2, '0');
@@ -49,16 +75,27 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
 
       setDiscountValue(bill.discountValue || 0);
       setDiscountType(bill.discountType || 'amount');
-      setNote((bill as any).note || ''); // Cast to any to access optional note property safely
+      setNote(bill.note || '');
+      setBookingTechnicianId((bill as Booking).technicianId);
+      setTip(bill.tip || 0);
+      setTipSplits(bill.tipSplits || []);
+      setPaymentMethod(bill.payments?.[0]?.method || null);
+      setSplitPayments(bill.payments && bill.payments.length > 1 ? bill.payments : null);
       setIsCustomerInfoOpen(false); 
     } else {
       setCustomerName('');
+      setCustomerId(undefined);
       setDate(getTodayDateString());
       setTime(getCurrentTimeString());
       setItems([{ id: `temp-${Date.now()}`, serviceId: '', name: '', price: 0, quantity: 1 }]);
       setDiscountValue(0);
       setDiscountType('amount');
       setNote('');
+      setBookingTechnicianId(undefined);
+      setTip(0);
+      setTipSplits([]);
+      setPaymentMethod('cash');
+      setSplitPayments(null);
       setIsCustomerInfoOpen(true);
     }
   }, [bill]);
@@ -70,9 +107,7 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
           return;
       }
 
-      const normalizedInput = customerName.trim().toLowerCase();
-      // Find customer exactly (case-insensitive)
-      const customer = customers.find(c => c.name.trim().toLowerCase() === normalizedInput);
+      const customer = findCustomerForRecord({ customerName, customerId }, customers);
 
       if (customer && customer.dob) {
           try {
@@ -90,13 +125,31 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
           }
       }
       setBirthdayAlert(null);
-  }, [customerName, customers]);
-
-  const updateSuggestions = (value: string) => {
-    if (value) {
-        const filteredSuggestions = customerNames.filter(name =>
-            name.toLowerCase().includes(value.toLowerCase()) && name.toLowerCase() !== value.toLowerCase()
-        );
+  }, [customerName, customerId, customers]);
+
+  const updateSuggestions = (value: string, linkedId = customerId) => {
+    if (value && isPhoneQuery(value)) {
+        // Typing digits looks customers up by phone; picking one fills in their name
+        const phoneSuggestions = customers.filter(c => phoneMatchesQuery(c.phone, value)).map(c => ({ name: c.name, customer: c }));
+        setSuggestions(phoneSuggestions);
+        setIsSuggestionsVisible(phoneSuggestions.length > 0);
+    } else if (value) {
+        const input = customerNameKey(value);
+        const profileNames = new Set(customers.map(c => customerNameKey(c.name)));
+        // Profiles first, so a name shared by several customers can be told apart by phone.
+        // An exact match is still offered unless it is already linked or the only one with that name.
+        const profileSuggestions = customers
+            .filter(c => {
+                const name = customerNameKey(c.name);
+                if (!name.includes(input)) return false;
+                return name !== input || (c.id !== linkedId && findCustomerByName(c.name, customers)?.id !== c.id);
+            })
+            .map(c => ({ name: c.name, customer: c }));
+        const nameSuggestions = customerNames
+            .filter(name => !profileNames.has(customerNameKey(name)))
+            .filter(name => name.toLowerCase().includes(value.toLowerCase()) && name.toLowerCase() !== value.toLowerCase())
+            .map(name => ({ name }));
+        const filteredSuggestions: CustomerSuggestion[] = [...profileSuggestions, ...nameSuggestions];
         setSuggestions(filteredSuggestions);
         setIsSuggestionsVisible(filteredSuggestions.length > 0);
     } else {
@@ -108,11 +161,16 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
   const handleCustomerNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setCustomerName(value);
-    updateSuggestions(value);
+    // Editing the name away from the picked profile unlinks it
+    const linked = customers.find(c => c.id === customerId);
+    const linkedId = linked && customerNameKey(linked.name) === customerNameKey(value) ? customerId : undefined;
+    setCustomerId(linkedId);
+    updateSuggestions(value, linkedId);
   };
 
-  const handleSuggestionClick = (name: string) => {
-    setCustomerName(name);
+  const handleSuggestionClick = (suggestion: CustomerSuggestion) => {
+    setCustomerName(suggestion.name);
+    setCustomerId(suggestion.customer?.id);
     setSuggestions([]);
     setIsSuggestionsVisible(false);
   };
@@ -126,6 +184,9 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
     item.serviceId = service.id;
     item.name = service.name;
     item.quantity = 1;
+    // A different service starts from its own price
+    item.adjustment = undefined;
+    item.listPrice = undefined;
     
     // Handle Variable Price
     if (service.priceType === 'variable' && service.variants && service.variants.length > 0) {
@@ -149,9 +210,8 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
       if (service && service.variants) {
           const variant = service.variants.find(v => v.name === variantName);
           if (variant) {
-              item.price = variant.price * item.quantity;
               item.variantName = variant.name;
-              newItems[index] = item;
+              newItems[index] = priceItem(item, variant.price * item.quantity);
               setItems(newItems);
           }
       }
@@ -174,8 +234,7 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
             if (variant) unitPrice = variant.price;
         }
 
-        item.price = unitPrice * item.quantity;
-        newItems[index] = item;
+        newItems[index] = priceItem(item, unitPrice * item.quantity);
         setItems(newItems);
     }
   };
@@ -189,7 +248,43 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
   }
 
   const addItem = () => {
-    setItems([...items, { id: `temp-${Date.now()}`, serviceId: '', name: '', price: 0, quantity: 1 }]);
+    setItems([...items, { id: `temp-${Date.now()}`, serviceId: '', name: '', price: 0, quantity: 1, technicianId: isBooking ? bookingTechnicianId : undefined }]);
+  };
+
+  const handleTechnicianChange = (index: number, technicianId: string) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, technicianId: technicianId || undefined } : item)));
+  };
+
+  // Picking the booked technician also assigns the items nobody else was given
+  const handleBookingTechnicianChange = (technicianId: string) => {
+    const previous = bookingTechnicianId;
+    const next = technicianId || undefined;
+    setBookingTechnicianId(next);
+    setItems(items.map(item => (!item.technicianId || item.technicianId === previous ? { ...item, technicianId: next } : item)));
+  };
+
+  // Inactive technicians can't be picked, but stay selected where they already are
+  const getTechnicianOptions = (currentId?: string) => staff.filter(t => t.active || t.id === currentId);
+
+  const startAdjustment = (index: number) => {
+    const item = items[index];
+    setItems(items.map((it, i) => (i === index ? priceItem({ ...it, adjustment: { type: 'amount', value: 0, reason: '' } }, getItemListPrice(item)) : it)));
+  };
+
+  const handleAdjustmentChange = (index: number, patch: Partial<ItemAdjustment>) => {
+    const item = items[index];
+    if (!item.adjustment) return;
+    const adjustment = { ...item.adjustment, ...patch };
+    // Switching to a new price starts from the current unit price rather than from 0
+    if (patch.type && patch.type !== item.adjustment.type) {
+      adjustment.value = patch.type === 'override' ? Math.round(getItemListPrice(item) / (item.quantity || 1)) : 0;
+    }
+    setItems(items.map((it, i) => (i === index ? priceItem({ ...it, adjustment }, getItemListPrice(item)) : it)));
+  };
+
+  const removeAdjustment = (index: number) => {
+    const item = items[index];
+    setItems(items.map((it, i) => (i === index ? priceItem({ ...it, adjustment: undefined }, getItemListPrice(item)) : it)));
   };
 
   const removeItem = (index: number) => {
@@ -215,10 +310,61 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
     return Math.max(0, subtotal - discount);
   }, [calculateSubtotal, calculateDiscountAmount]);
 
+  // What the payments have to cover
+  const calculateAmountDue = useCallback(() => calculateTotal() + tip, [calculateTotal, tip]);
+
+  const addTipSplit = () => {
+    const remaining = Math.max(0, tip - sumTipSplits(tipSplits));
+    setTipSplits([...tipSplits, { technician: '', amount: remaining }]);
+  };
+
+  const updateTipSplit = (index: number, split: TipSplit) => {
+    setTipSplits(tipSplits.map((s, i) => (i === index ? split : s)));
+  };
+
+  const removeTipSplit = (index: number) => {
+    setTipSplits(tipSplits.filter((_, i) => i !== index));
+  };
+
+  const startSplitPayment = () => {
+    setSplitPayments([
+      { method: paymentMethod || 'cash', amount: calculateAmountDue() },
+      { method: PAYMENT_METHODS.find(m => m !== (paymentMethod || 'cash')) || 'cash', amount: 0 },
+    ]);
+  };
+
+  const addSplitPayment = () => {
+    if (!splitPayments) return;
+    const remaining = Math.max(0, calculateAmountDue() - sumPayments(splitPayments));
+    const unused = PAYMENT_METHODS.find(m => !splitPayments.some(p => p.method === m));
+    setSplitPayments([...splitPayments, { method: unused || 'cash', amount: remaining }]);
+  };
+
+  const updateSplitPayment = (index: number, payment: Payment) => {
+    if (!splitPayments) return;
+    setSplitPayments(splitPayments.map((p, i) => (i === index ? payment : p)));
+  };
+
+  const removeSplitPayment = (index: number) => {
+    if (!splitPayments) return;
+    const remaining = splitPayments.filter((_, i) => i !== index);
+    // Back to a single method once only one is left
+    if (remaining.length <= 1) {
+      setPaymentMethod(remaining[0]?.method || paymentMethod);
+      setSplitPayments(null);
+    } else {
+      setSplitPayments(remaining);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    const finalItems = items.filter(item => item.serviceId);
+    // Adjustments that leave the price as it was are dropped
+    const finalItems = items
+        .filter(item => item.serviceId)
+        .map(item => (item.adjustment && getItemDiscount(item) === 0 ? priceItem({ ...item, adjustment: undefined }, item.price) : item))
+        .map(item => (item.adjustment ? { ...item, adjustment: { ...item.adjustment, reason: item.adjustment.reason.trim() } } : item));
 
     if (!customerName.trim()) {
         alert("Vui lòng điền tên khách hàng.");
@@ -230,6 +376,12 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
         alert("Vui lòng thêm ít nhất một dịch vụ hợp lệ vào hóa đơn.");
         return;
     }
+
+    const unexplained = finalItems.find(item => item.adjustment && !item.adjustment.reason);
+    if (unexplained) {
+        alert(`Vui lòng ghi lý do giảm giá hoặc sửa giá cho dịch vụ "${unexplained.name}".`);
+        return;
+    }
     
     const [hours, minutes] = time.split(':').map(Number);
     const finalDate = new Date(date);
@@ -249,22 +401,54 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
 
     const finalTotal = calculateTotal();
 
-    const billData = {
+    // Bookings get their tip and payments when they become bills
+    const finalTip = isBooking ? 0 : tip;
+    const finalTipSplits = linkTipSplits(tipSplits, staff)
+        .filter(s => s.technician && s.amount > 0);
+    if (finalTip > 0 && sumTipSplits(finalTipSplits) > finalTip) {
+        alert(`Tổng tiền tip đã chia (${formatCurrency(sumTipSplits(finalTipSplits))}) vượt quá tiền tip (${formatCurrency(finalTip)}).`);
+        return;
+    }
+
+    let payments: Payment[] | undefined;
+    if (!isBooking) {
+        const amountDue = finalTotal + finalTip;
+        payments = splitPayments
+            ? splitPayments.filter(p => p.amount > 0)
+            : paymentMethod ? [{ method: paymentMethod, amount: amountDue }] : undefined;
+        if (payments && splitPayments && sumPayments(payments) !== amountDue) {
+            alert(`Tổng các khoản thanh toán (${formatCurrency(sumPayments(payments))}) phải bằng số tiền khách trả (${formatCurrency(amountDue)}).`);
+            return;
+        }
+    }
+
+    // Typed names are linked too when exactly one profile has them
+    const customer = customers.find(c => c.id === customerId) || findCustomerByName(customerName, customers);
+
+    const billData: Booking = {
       id: bill?.id || '',
       customerName: customerName.trim(),
+      customerId: customer?.id,
       date: finalDate.toISOString(),
       items: finalItems,
       total: finalTotal,
       discountValue: discountValue,
       discountType: discountType,
-      note: note.trim()
+      note: note.trim(),
+      payments,
+      tip: finalTip > 0 ? finalTip : undefined,
+      tipSplits: finalTip > 0 && finalTipSplits.length > 0 ? finalTipSplits : undefined
     };
 
+    if (isBooking) {
+        billData.technicianId = bookingTechnicianId;
+    }
+
     if (isBooking && bill && (bill as Booking).createdAt) {
-        (billData as any).createdAt = (bill as Booking).createdAt;
+        billData.createdAt = (bill as Booking).createdAt;
     }
 
-    onSave(billData as Bill);
+    onSave(billData);
   };
 
   const handleBlur = () => {
@@ -324,6 +508,9 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
 
   const inputBaseClasses = "w-full px-4 py-3 border-none rounded-2xl transition-all duration-200 outline-none text-text-main placeholder:text-gray-400 bg-gray-50 focus:bg-white focus:ring-2 focus:ring-primary/20 shadow-sm";
 
+  const paymentRemaining = splitPayments ? calculateAmountDue() - sumPayments(splitPayments) : 0;
+  const tipUnassigned = tip - sumTipSplits(tipSplits);
+
   return (
     <form onSubmit={handleSubmit} className="max-w-2xl mx-auto bg-white p-6 sm:p-8 rounded-3xl shadow-card space-y-6">
       <h2 className="text-2xl font-bold text-center text-text-main">
@@ -357,7 +544,7 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
                     autoComplete="off"
                     required
                     className={inputBaseClasses}
-                    placeholder="ví dụ: Nguyễn Thị A"
+                    placeholder="Tên hoặc số điện thoại khách"
                 />
                 
                 {birthdayAlert && (
@@ -369,13 +556,14 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
 
                 {isSuggestionsVisible && suggestions.length > 0 && (
                     <ul className="absolute z-20 w-full bg-white border border-gray-100 rounded-2xl shadow-lg max-h-48 overflow-y-auto mt-2 p-1">
-                    {suggestions.map((name, index) => (
+                    {suggestions.map((suggestion, index) => (
                         <li
-                        key={index}
-                        onClick={() => handleSuggestionClick(name)}
-                        className="px-4 py-2 hover:bg-pink-50 rounded-xl cursor-pointer text-sm"
+                        key={suggestion.customer?.id || index}
+                        onClick={() => handleSuggestionClick(suggestion)}
+                        className="px-4 py-2 hover:bg-pink-50 rounded-xl cursor-pointer text-sm flex justify-between gap-2"
                         >
-                        {name}
+                        <span>{suggestion.name}</span>
+                        {suggestion.customer?.phone && <span className="text-xs text-gray-400">{formatPhone(suggestion.customer.phone)}</span>}
                         </li>
                     ))}
                     </ul>
@@ -430,10 +618,26 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
 
       <div className="space-y-4">
         <h3 className="text-lg font-bold text-text-main border-b border-gray-100 pb-2">Dịch Vụ</h3>
+        {isBooking && staff.length > 0 && (
+            <div className="flex items-center justify-between gap-3">
+                <label className="text-sm font-medium text-text-main">Thợ được đặt:</label>
+                <select
+                    value={bookingTechnicianId || ''}
+                    onChange={(e) => handleBookingTechnicianChange(e.target.value)}
+                    className="w-48 px-3 py-2 rounded-xl border border-gray-200 bg-white text-text-main text-sm outline-none"
+                >
+                    <option value="">Thợ nào cũng được</option>
+                    {getTechnicianOptions(bookingTechnicianId).map(t => (
+                        <option key={t.id} value={t.id}>{t.name}{t.active ? '' : ' (ngừng làm)'}</option>
+                    ))}
+                </select>
+            </div>
+        )}
         {items.map((item, index) => {
             const serviceDef = services.find(s => s.id === item.serviceId);
             const allowQuantity = serviceDef?.allowQuantity;
             const isVariablePrice = serviceDef?.priceType === 'variable' && serviceDef.variants && serviceDef.variants.length > 0;
+            const technician = staff.find(t => t.id === item.technicianId);
 
             return (
               <div key={item.id} className="bg-gray-50 p-4 rounded-2xl border border-transparent hover:border-pink-100 transition-colors">
@@ -478,6 +682,9 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
                             </div>
                         )}
                         <div className="flex-grow px-4 py-3 border-none rounded-xl bg-white text-right text-text-main font-bold shadow-sm">
+                            {getItemDiscount(item) !== 0 && (
+                                <span className="mr-2 text-xs text-gray-400 line-through font-normal">{formatCurrency(getItemListPrice(item))}</span>
+                            )}
                             {formatCurrency(item.price)}
                         </div>
                         <button type="button" onClick={() => removeItem(index)} className="p-3 bg-white text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-xl shadow-sm transition-colors shrink-0">
@@ -524,16 +731,82 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
                         </div>
                     )}
 
-                    <div className="w-32 px-4 py-2.5 border-none rounded-xl bg-white text-right text-text-main font-bold shadow-sm h-[42px] flex items-center justify-end">
+                    <div className="w-32 px-4 py-1 border-none rounded-xl bg-white text-right text-text-main font-bold shadow-sm h-[42px] flex flex-col items-end justify-center">
+                      {getItemDiscount(item) !== 0 && (
+                          <span className="text-[10px] leading-none text-gray-400 line-through font-normal">{formatCurrency(getItemListPrice(item))}</span>
+                      )}
                       {formatCurrency(item.price)}
                     </div>
                     <button type="button" onClick={() => removeItem(index)} className="p-2.5 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-xl transition-colors bg-white shadow-sm h-[42px]">
                       <TrashIcon className="w-5 h-5" />
                     </button>
                 </div>
+
+                {(staff.length > 0 || (item.serviceId && !item.adjustment)) && (
+                    <div className="mt-3 flex items-center gap-2">
+                        {staff.length > 0 && (
+                            <>
+                                <span
+                                    className="w-3 h-3 rounded-full shrink-0 bg-gray-200"
+                                    style={technician ? { backgroundColor: technician.color } : undefined}
+                                />
+                                <select
+                                    value={item.technicianId || ''}
+                                    onChange={(e) => handleTechnicianChange(index, e.target.value)}
+                                    className="flex-grow sm:flex-grow-0 sm:w-48 px-3 py-1.5 border-none rounded-lg bg-white text-text-main text-sm shadow-sm outline-none"
+                                >
+                                    <option value="">Chưa chọn thợ</option>
+                                    {getTechnicianOptions(item.technicianId).map(t => (
+                                        <option key={t.id} value={t.id}>{t.name}{t.active ? '' : ' (ngừng làm)'}</option>
+                                    ))}
+                                </select>
+                            </>
+                        )}
+                        {item.serviceId && !item.adjustment && (
+                            <button type="button" onClick={() => startAdjustment(index)} className="ml-auto text-xs font-semibold text-primary hover:underline shrink-0">
+                                Giảm giá / sửa giá
+                            </button>
+                        )}
+                    </div>
+                )}
+
+                {item.adjustment && (
+                    <div className="mt-3 flex flex-wrap items-center gap-2">
+                        <select
+                            value={item.adjustment.type}
+                            onChange={(e) => handleAdjustmentChange(index, { type: e.target.value as ItemAdjustment['type'] })}
+                            className="px-3 py-1.5 border-none rounded-lg bg-white text-text-main text-sm shadow-sm outline-none"
+                        >
+                            {(Object.keys(ITEM_ADJUSTMENT_LABELS) as ItemAdjustment['type'][]).map(type => (
+                                <option key={type} value={type}>{ITEM_ADJUSTMENT_LABELS[type]}</option>
+                            ))}
+                        </select>
+                        <input
+                            type="number"
+                            min="0"
+                            value={item.adjustment.value}
+                            onChange={(e) => handleAdjustmentChange(index, { value: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className="w-28 px-3 py-1.5 border-none rounded-lg bg-white text-right text-text-main text-sm shadow-sm outline-none"
+                        />
+                        <input
+                            type="text"
+                            list="adjustment-reasons"
+                            value={item.adjustment.reason}
+                            onChange={(e) => handleAdjustmentChange(index, { reason: e.target.value })}
+                            placeholder="Lý do (VD: khách quen)"
+                            className="flex-grow min-w-[140px] px-3 py-1.5 border-none rounded-lg bg-white text-text-main text-sm shadow-sm outline-none"
+                        />
+                        <button type="button" onClick={() => removeAdjustment(index)} className="text-xs font-semibold text-gray-400 hover:text-red-500">
+                            Bỏ
+                        </button>
+                    </div>
+                )}
               </div>
             );
         })}
+        <datalist id="adjustment-reasons">
+            {SUGGESTED_ADJUSTMENT_REASONS.map(reason => <option key={reason} value={reason} />)}
+        </datalist>
         <button type="button" onClick={addItem} className="w-full mt-2 px-4 py-3 text-primary border-2 border-dashed border-primary/30 rounded-2xl hover:bg-pink-50 hover:border-primary transition-colors font-semibold flex items-center justify-center gap-2">
           <span className="text-xl">+</span> Thêm Dịch Vụ
         </button>
@@ -579,6 +852,136 @@ const BillEditor: React.FC<BillEditorProps> = ({ bill, onSave, onCancel, service
           </div>
       </div>
 
+      {/* Tip Section */}
+      {!isBooking && (
+        <div className="pt-6 border-t border-gray-100 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <label className="text-sm font-medium text-text-main">Tiền tip:</label>
+            <input
+              type="number"
+              min="0"
+              value={tip}
+              onChange={(e) => setTip(Math.max(0, parseFloat(e.target.value) || 0))}
+              className="w-36 px-4 py-2 rounded-xl border border-gray-200 outline-none text-right bg-white text-text-main font-semibold"
+            />
+          </div>
+
+          {tip > 0 && (
+            <div className="space-y-2">
+              {tipSplits.map((split, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    list="technician-names"
+                    value={staff.find(t => t.id === split.technicianId)?.name ?? split.technician}
+                    onChange={(e) => updateTipSplit(index, { technician: e.target.value, amount: split.amount })}
+                    placeholder="Tên thợ"
+                    className="flex-grow w-full px-4 py-2 rounded-xl border border-gray-200 outline-none bg-white text-text-main"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={split.amount}
+                    onChange={(e) => updateTipSplit(index, { ...split, amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="w-32 px-4 py-2 rounded-xl border border-gray-200 outline-none text-right bg-white text-text-main font-semibold"
+                  />
+                  <button type="button" onClick={() => removeTipSplit(index)} className="p-2 text-gray-400 hover:text-red-500" aria-label="Xóa phần tip">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <datalist id="technician-names">
+                {technicianNames.map(name => <option key={name} value={name} />)}
+              </datalist>
+              <div className="flex items-center justify-between text-sm">
+                <button type="button" onClick={addTipSplit} className="font-semibold text-primary hover:underline">+ Chia tip cho thợ</button>
+                {tipSplits.length > 0 && (
+                  tipUnassigned === 0 ? (
+                    <span className="text-green-600 font-medium">Đã chia hết</span>
+                  ) : tipUnassigned > 0 ? (
+                    <span className="text-orange-500 font-medium">Chưa chia {formatCurrency(tipUnassigned)}</span>
+                  ) : (
+                    <span className="text-red-500 font-medium">Chia dư {formatCurrency(-tipUnassigned)}</span>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Payment Section */}
+      {!isBooking && (
+        <div className="pt-6 border-t border-gray-100 space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-text-main">
+              Thanh toán{tip > 0 ? ` (gồm tip): ${formatCurrency(calculateAmountDue())}` : ':'}
+            </label>
+            {!splitPayments && (
+              <button type="button" onClick={startSplitPayment} className="text-xs font-semibold text-primary hover:underline">
+                Chia nhiều hình thức
+              </button>
+            )}
+          </div>
+
+          {splitPayments ? (
+            <div className="space-y-2">
+              {splitPayments.map((payment, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={payment.method}
+                    onChange={(e) => updateSplitPayment(index, { ...payment, method: e.target.value as PaymentMethod })}
+                    className="px-3 py-2 rounded-xl border border-gray-200 bg-gray-50 outline-none text-sm font-medium"
+                  >
+                    {PAYMENT_METHODS.map(method => (
+                      <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="0"
+                    value={payment.amount}
+                    onChange={(e) => updateSplitPayment(index, { ...payment, amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                    className="flex-grow w-full px-4 py-2 rounded-xl border border-gray-200 outline-none text-right bg-white text-text-main font-semibold"
+                  />
+                  <button type="button" onClick={() => removeSplitPayment(index)} className="p-2 text-gray-400 hover:text-red-500" aria-label="Xóa khoản thanh toán">
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between text-sm">
+                <button type="button" onClick={addSplitPayment} className="font-semibold text-primary hover:underline">+ Thêm khoản</button>
+                {paymentRemaining === 0 ? (
+                  <span className="text-green-600 font-medium">Đã đủ</span>
+                ) : paymentRemaining > 0 ? (
+                  <span className="text-orange-500 font-medium">Còn thiếu {formatCurrency(paymentRemaining)}</span>
+                ) : (
+                  <span className="text-red-500 font-medium">Dư {formatCurrency(-paymentRemaining)}</span>
+                )}
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="flex gap-2">
+                {PAYMENT_METHODS.map(method => (
+                  <button
+                    key={method}
+                    type="button"
+                    onClick={() => setPaymentMethod(method)}
+                    className={`flex-1 py-2 rounded-xl text-sm font-semibold transition-colors ${paymentMethod === method ? 'bg-primary text-white' : 'bg-gray-100 text-text-main hover:bg-gray-200'}`}
+                  >
+                    {PAYMENT_METHOD_LABELS[method]}
+                  </button>
+                ))}
+              </div>
+              {!paymentMethod && (
+                <p className="text-xs text-text-light">Hóa đơn này chưa ghi nhận hình thức thanh toán.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
       <div className="flex justify-end space-x-3 sm:space-x-4 pt-4">
         <button type="button" onClick={onCancel} className="flex-1 sm:flex-none px-6 py-3 bg-gray-100 text-text-main rounded-2xl hover:bg-gray-200 transition-colors font-bold">Hủy</button>
         <button type="submit" className="flex-1 sm:flex-none px-8 py-3 bg-primary text-white rounded-2xl hover:bg-primary-hover transition-colors shadow-lg shadow-primary/30 font-bold">
@@ -0,0 +1,112 @@
+import React from 'react';
+import useAuditLog from '../hooks/useAuditLog';
+import type { AuditAction, AuditEntry, FieldChange, ItemSnapshot } from '../utils/audit';
+import { formatCurrency, formatSpecificDateTime } from '../utils/dateUtils';
+
+interface BillHistoryProps {
+  recordId: string;
+  technicianNames?: Map<string, string>; // By technician id
+}
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Tạo mới',
+  update: 'Chỉnh sửa',
+  delete: 'Xóa',
+  restore: 'Khôi phục',
+};
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  create: 'bg-emerald-500',
+  update: 'bg-blue-500',
+  delete: 'bg-red-500',
+  restore: 'bg-amber-500',
+};
+
+const FIELD_LABELS: Record<Exclude<FieldChange['field'], 'item'>, string> = {
+  customerName: 'Khách hàng',
+  customerId: 'Hồ sơ khách hàng',
+  date: 'Thời gian',
+  discountType: 'Loại giảm giá',
+  note: 'Ghi chú',
+  total: 'Thành tiền',
+  discountValue: 'Giảm giá',
+  payments: 'Thanh toán',
+  tip: 'Tiền tip',
+  tipSplits: 'Chia tip',
+};
+
+const formatAdjustment = (item: ItemSnapshot): string => {
+  if (!item.adjustmentType) return item.reason ? ` (${item.reason})` : '';
+  const value = item.adjustmentValue ?? 0;
+  const amount = item.adjustmentType === 'percent' ? `−${value}%`
+    : item.adjustmentType === 'amount' ? `−${formatCurrency(value)}`
+    : `= ${formatCurrency(value)}`;
+  return ` (${item.reason ? `${item.reason} ` : ''}${amount})`;
+};
+
+const formatItem = (item: ItemSnapshot, technicianNames: Map<string, string>) =>
+  `${item.name}${item.variantName ? ` (${item.variantName})` : ''}${item.quantity > 1 ? ` x${item.quantity}` : ''}: ${formatCurrency(item.price)}${formatAdjustment(item)}${item.technicianId ? ` · Thợ: ${technicianNames.get(item.technicianId) || '—'}` : ''}`;
+
+const formatValue = (change: FieldChange, value: string | number | null): string => {
+  if (value === null) return '—';
+  if (change.field === 'date') return formatSpecificDateTime(value as string);
+  if (change.field === 'total' || change.field === 'tip') return formatCurrency(value as number);
+  if (change.field === 'discountType') return value === 'percent' ? '%' : 'Số tiền';
+  return String(value);
+};
+
+const describeChange = (change: FieldChange, technicianNames: Map<string, string>): string => {
+  if (change.field === 'item') {
+    if (!change.before && change.after) return `+ ${formatItem(change.after, technicianNames)}`;
+    if (change.before && !change.after) return `− ${formatItem(change.before, technicianNames)}`;
+    return `${formatItem(change.before!, technicianNames)} → ${formatItem(change.after!, technicianNames)}`;
+  }
+  // Profile ids mean nothing to the reader; say whether the bill was linked, unlinked or moved
+  if (change.field === 'customerId') {
+    if (!change.before) return `${FIELD_LABELS.customerId}: đã liên kết`;
+    if (!change.after) return `${FIELD_LABELS.customerId}: đã bỏ liên kết`;
+    return `${FIELD_LABELS.customerId}: chuyển sang hồ sơ khác`;
+  }
+  return `${FIELD_LABELS[change.field]}: ${formatValue(change, change.before)} → ${formatValue(change, change.after)}`;
+};
+
+const getEntryTotal = (entry: AuditEntry): number => {
+  const change = entry.changes.find(c => c.field === 'total');
+  return change ? ((change.after ?? change.before) as number) || 0 : 0;
+};
+
+const BillHistory: React.FC<BillHistoryProps> = ({ recordId, technicianNames = new Map() }) => {
+  const { entries, isLoading } = useAuditLog(recordId);
+
+  if (isLoading) {
+    return <p className="text-center text-gray-400 text-sm py-8">Đang tải...</p>;
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-center text-gray-400 italic text-sm py-8">Chưa có lịch sử chỉnh sửa cho hóa đơn này.</p>;
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-100 ml-2 space-y-6">
+      {entries.map(entry => (
+        <li key={entry.id} className="pl-5 relative">
+          <span className={`absolute -left-[7px] top-1.5 w-3 h-3 rounded-full ${ACTION_COLORS[entry.action]}`} />
+          <div className="flex justify-between items-baseline gap-3">
+            <span className="font-bold text-gray-800 text-sm">{ACTION_LABELS[entry.action]}</span>
+            <span className="text-xs text-gray-400 whitespace-nowrap">{formatSpecificDateTime(entry.timestamp)}</span>
+          </div>
+          {entry.action === 'update' ? (
+            <ul className="mt-2 space-y-1 text-xs text-gray-600">
+              {entry.changes.map((change, i) => <li key={i}>{describeChange(change, technicianNames)}</li>)}
+            </ul>
+          ) : (
+            // Created, deleted or restored: the whole bill changed, so just show its total at that point
+            <p className="mt-1 text-xs text-gray-600">Thành tiền: {formatCurrency(getEntryTotal(entry))}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default BillHistory;
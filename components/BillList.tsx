@@ -1,7 +1,9 @@
 
-import React, { useState, useMemo, useEffect, useRef } from 'react';
-import type { Bill, Booking } from '../types';
-import { PencilIcon, TrashIcon, PlusIcon, MagnifyingGlassIcon, CalendarDaysIcon, XMarkIcon, ArrowUpIcon, BillIcon, ClockIcon, ArrowRightOnRectangleIcon, CheckIcon } from './icons';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import type { Bill, Booking, Technician } from '../types';
+import { PencilIcon, TrashIcon, PlusIcon, MagnifyingGlassIcon, CalendarDaysIcon, XMarkIcon, ArrowUpIcon, BillIcon, ClockIcon, ArrowRightOnRectangleIcon, CheckIcon, ArrowDownTrayIcon } from './icons';
+import { billsToCsv, downloadCsvFile } from '../utils/csv';
+import { hasTechnician } from '../utils/staff';
 import { formatCurrency, formatDateTime, getBillDateCategory } from '../utils/dateUtils';
 import BillViewModal from './BillViewModal';
 import { useShopSettings } from '../hooks/useShopSettings';
@@ -14,6 +16,9 @@ interface BillListProps {
   shopName: string;
   initialDate?: string | null;
   onClearTargetDate?: () => void;
+  staff?: Technician[];
+  archiveCutoff?: string; // Bills before this local date live in the archive, not in `bills`
+  loadArchivedBills?: () => Promise<Bill[]>;
   
   // Booking Props
   bookings?: Booking[];
@@ -139,12 +144,13 @@ const formatBookingDateTime = (isoString: string): string => {
 };
 
 const BillList: React.FC<BillListProps> = ({ 
-    bills, onEdit, onDelete, onAddNew, shopName, initialDate, onClearTargetDate,
+    bills, onEdit, onDelete, onAddNew, shopName, initialDate, onClearTargetDate, staff = [], archiveCutoff, loadArchivedBills,
     bookings = [], onEditBooking, onDeleteBooking, onConvertToBill, onAddNewBooking, initialTab = 'bills', onTabChange
 }) => {
   const [activeTab, setActiveTab] = useState<'bills' | 'bookings'>(initialTab);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterDate, setFilterDate] = useState('');
+  const [filterTechnicianId, setFilterTechnicianId] = useState('');
   const [viewingBill, setViewingBill] = useState<Bill | null>(null);
   const [showScrollTop, setShowScrollTop] = useState(false);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
@@ -156,7 +162,7 @@ const BillList: React.FC<BillListProps> = ({
   const observerTarget = useRef<HTMLDivElement>(null);
 
   // Get theme from hook
-  const { billTheme } = useShopSettings();
+  const { billTheme, bankAccount } = useShopSettings();
 
   useEffect(() => {
     if (initialDate) {
@@ -172,7 +178,7 @@ const BillList: React.FC<BillListProps> = ({
   // Reset visible count when filters change
   useEffect(() => {
     setVisibleCount(PAGE_SIZE);
-  }, [searchTerm, filterDate, bills, activeTab]);
+  }, [searchTerm, filterDate, filterTechnicianId, bills, activeTab]);
 
   // Handle Scroll To Top Button Visibility
   useEffect(() => {
@@ -241,21 +247,43 @@ const BillList: React.FC<BillListProps> = ({
   };
 
   // --- Filter and Sort Bills ---
-  const filteredBills = useMemo(() => {
-    return bills.filter(bill => {
+  const filterBills = useCallback((list: Bill[]) => {
+    return list.filter(bill => {
       const matchName = bill.customerName.toLowerCase().includes(searchTerm.toLowerCase());
       const matchDate = filterDate ? bill.date.startsWith(filterDate) : true;
-      return matchName && matchDate;
+      const matchTechnician = filterTechnicianId ? hasTechnician(bill, filterTechnicianId) : true;
+      return matchName && matchDate && matchTechnician;
     }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  }, [bills, searchTerm, filterDate]);
+  }, [searchTerm, filterDate, filterTechnicianId]);
+
+  const filteredBills = useMemo(() => filterBills(bills), [bills, filterBills]);
+
+  // Exports everything matching the current filters (search, date and staff), not only the loaded page,
+  // including archived bills unless the chosen date is after the archive cutoff
+  const handleExportCsv = async () => {
+      try {
+          const includeArchive = archiveCutoff && loadArchivedBills && (!filterDate || filterDate < archiveCutoff);
+          const exported = includeArchive ? filterBills([...bills, ...await loadArchivedBills()]) : filteredBills;
+          if (exported.length === 0) {
+              alert('Không có hóa đơn nào để xuất.');
+              return;
+          }
+          const suffix = filterDate || new Date().toISOString().split('T')[0];
+          downloadCsvFile(billsToCsv(exported), `hoa-don-${suffix}.csv`);
+      } catch (error) {
+          console.error("Failed to export bills to CSV", error);
+          alert('Đã xảy ra lỗi khi xuất file CSV.');
+      }
+  };
 
   // --- Filter and Sort Bookings ---
   const filteredBookings = useMemo(() => {
       return bookings.filter(booking => {
           const matchName = booking.customerName.toLowerCase().includes(searchTerm.toLowerCase());
-          return matchName;
+          const matchTechnician = filterTechnicianId ? hasTechnician(booking, filterTechnicianId) : true;
+          return matchName && matchTechnician;
       }).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()); // Sort ascending for bookings
-  }, [bookings, searchTerm]);
+  }, [bookings, searchTerm, filterTechnicianId]);
 
   // --- Data for display (Pagination) ---
   const currentList = activeTab === 'bills' ? filteredBills : filteredBookings;
@@ -380,6 +408,22 @@ const BillList: React.FC<BillListProps> = ({
             />
         </div>
         
+        {/* Staff Filter */}
+        {staff.length > 0 && (
+            <select
+                value={filterTechnicianId}
+                onChange={(e) => setFilterTechnicianId(e.target.value)}
+                className="px-4 py-3.5 border-none rounded-2xl outline-none text-text-main bg-white shadow-card focus:shadow-md focus:ring-2 focus:ring-primary/20 transition-all duration-300 cursor-pointer"
+            >
+                <option value="">Tất cả thợ</option>
+                {staff.map(technician => (
+                    <option key={technician.id} value={technician.id}>
+                        {technician.name}{technician.active ? '' : ' (ngừng làm)'}
+                    </option>
+                ))}
+            </select>
+        )}
+
         {/* Date Filter (Only for Bills) */}
         {activeTab === 'bills' && (
             <div className="relative group sm:w-48">
@@ -417,6 +461,18 @@ const BillList: React.FC<BillListProps> = ({
                 )}
             </div>
         )}
+
+        {/* CSV Export (Only for Bills) */}
+        {activeTab === 'bills' && (
+            <button
+                onClick={handleExportCsv}
+                title="Xuất CSV"
+                className="flex items-center justify-center gap-2 px-4 py-3.5 rounded-2xl bg-white shadow-card text-text-light hover:text-primary hover:shadow-md transition-all duration-300 font-semibold"
+            >
+                <ArrowDownTrayIcon className="w-5 h-5" />
+                <span className="sm:hidden lg:inline">Xuất CSV</span>
+            </button>
+        )}
       </div>
 
       {categories.length > 0 ? (
@@ -556,7 +612,7 @@ const BillList: React.FC<BillListProps> = ({
       )}
 
       {viewingBill && (
-        <BillViewModal bill={viewingBill} onClose={() => setViewingBill(null)} shopName={shopName} billTheme={billTheme} />
+        <BillViewModal bill={viewingBill} onClose={() => setViewingBill(null)} shopName={shopName} billTheme={billTheme} bankAccount={bankAccount} staff={staff} />
       )}
       
       {/* Scroll To Top Button */}
@@ -576,7 +632,7 @@ const BillList: React.FC<BillListProps> = ({
             <div className="bg-white w-full max-w-sm rounded-3xl shadow-floating p-6 animate-in fade-in zoom-in duration-200" onClick={(e) => e.stopPropagation()}>
                 <h3 className="text-xl font-bold text-text-main mb-2">Xác nhận xóa</h3>
                 <p className="text-text-light mb-6">
-                    Bạn có chắc chắn muốn xóa {deleteType === 'bill' ? 'hóa đơn' : 'lịch hẹn'} này không? Hành động này không thể hoàn tác.
+                    Bạn có chắc chắn muốn xóa {deleteType === 'bill' ? 'hóa đơn' : 'lịch hẹn'} này không? Bạn có thể khôi phục lại từ Thùng rác.
                 </p>
                 <div className="flex justify-end gap-3">
                     <button 
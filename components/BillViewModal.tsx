@@ -1,23 +1,35 @@
 import React, { useRef, useState } from 'react';
-import type { Bill } from '../types';
+import type { BankAccount, Bill, Technician } from '../types';
 import { formatCurrency, formatSpecificDateTime } from '../utils/dateUtils';
 import html2canvas from 'html2canvas';
-import { ArrowDownTrayIcon, PrinterIcon } from './icons';
+import { ArrowDownTrayIcon, PrinterIcon, ClockIcon } from './icons';
+import BillHistory from './BillHistory';
+import { PAYMENT_METHOD_LABELS } from '../utils/payments';
+import { getBankName, getBillReference, getTransferMemo, isBankAccountComplete } from '../utils/vietqr';
+import VietQrCode from './VietQrCode';
+import { getAmountDue, getTip } from '../utils/tips';
+import { describeItemAdjustment, getBillDiscount, getBillSubtotal, getItemDiscount, getItemListPrice } from '../utils/discounts';
 
 interface BillViewModalProps {
   bill: Bill;
   onClose: () => void;
   shopName: string;
   billTheme?: string;
+  bankAccount?: BankAccount;
+  staff?: Technician[];
 }
 
-const BillViewModal: React.FC<BillViewModalProps> = ({ bill, onClose, shopName, billTheme = 'default' }) => {
+const BillViewModal: React.FC<BillViewModalProps> = ({ bill, onClose, shopName, billTheme = 'default', bankAccount, staff = [] }) => {
   const printableContentRef = useRef<HTMLDivElement>(null);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
 
-  const subTotal = bill.items.reduce((sum, item) => sum + item.price, 0);
-  const discountAmount = bill.total < subTotal ? subTotal - bill.total : 0;
+  const subTotal = getBillSubtotal(bill);
+  const discountAmount = getBillDiscount(bill);
   const hasDiscount = discountAmount > 0;
+  const tip = getTip(bill);
+  const showTransferQr = isBankAccountComplete(bankAccount) && getAmountDue(bill) > 0;
+  const technicianNames = new Map(staff.map(technician => [technician.id, technician.name]));
 
   // New Modern Theme Logic
   // Structure is constant (Receipt Card), colors change
@@ -151,8 +163,18 @@ const BillViewModal: React.FC<BillViewModalProps> = ({ bill, onClose, shopName,
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex justify-center items-center z-[60] p-4" onClick={onClose}>
       <div className="bg-white rounded-3xl shadow-2xl w-full max-w-[420px] flex flex-col max-h-[90vh] overflow-hidden transition-all transform scale-100" onClick={(e) => e.stopPropagation()}>
         
+        {showHistory && (
+          <div className="p-6 sm:p-8 overflow-y-auto custom-scrollbar flex-grow">
+            <div className="flex items-center gap-2 mb-6">
+              <ClockIcon className={`w-5 h-5 ${themeStyles.primaryColor}`} />
+              <h2 className="text-lg font-bold text-gray-800">Lịch sử chỉnh sửa</h2>
+            </div>
+            <BillHistory recordId={bill.id} technicianNames={technicianNames} />
+          </div>
+        )}
+
         {/* Printable Receipt Area */}
-        <div ref={printableContentRef} className="bg-white p-6 sm:p-8 overflow-y-auto custom-scrollbar flex-grow relative">
+        <div ref={printableContentRef} hidden={showHistory} className="bg-white p-6 sm:p-8 overflow-y-auto custom-scrollbar flex-grow relative">
            {/* Decorative top bar */}
            <div className={`absolute top-0 left-0 right-0 h-2 ${themeStyles.topBar}`} />
 
@@ -187,9 +209,18 @@ const BillViewModal: React.FC<BillViewModalProps> = ({ bill, onClose, shopName,
                                         {item.variantName} {item.quantity > 1 ? `x${item.quantity}` : ''}
                                     </div>
                                 )}
+                                {item.technicianId && technicianNames.has(item.technicianId) && (
+                                    <div className="text-gray-400 text-xs mt-0.5">Thợ: {technicianNames.get(item.technicianId)}</div>
+                                )}
+                                {item.adjustment && (
+                                    <div className="text-red-400 text-xs mt-0.5">{describeItemAdjustment(item)}</div>
+                                )}
                             </div>
-                            <div className="font-bold text-gray-800 whitespace-nowrap">
-                                {formatCurrency(item.price)}
+                            <div className="text-right whitespace-nowrap">
+                                {getItemDiscount(item) !== 0 && (
+                                    <div className="text-gray-400 text-xs line-through">{formatCurrency(getItemListPrice(item))}</div>
+                                )}
+                                <div className="font-bold text-gray-800">{formatCurrency(item.price)}</div>
                             </div>
                         </div>
                     ))}
@@ -217,20 +248,63 @@ const BillViewModal: React.FC<BillViewModalProps> = ({ bill, onClose, shopName,
                     <span className="font-bold text-gray-800 text-base">Thành tiền</span>
                     <span className={`text-3xl font-bold ${themeStyles.primaryColor}`}>{formatCurrency(bill.total)}</span>
                 </div>
+                {tip > 0 && (
+                    <>
+                        <div className="flex justify-between text-gray-500">
+                            <span>Tiền tip{bill.tipSplits && bill.tipSplits.length > 0 ? ` (${bill.tipSplits.map(s => (s.technicianId && technicianNames.get(s.technicianId)) || s.technician).join(', ')})` : ''}</span>
+                            <span>{formatCurrency(tip)}</span>
+                        </div>
+                        <div className="flex justify-between font-bold text-gray-800">
+                            <span>Khách trả</span>
+                            <span>{formatCurrency(getAmountDue(bill))}</span>
+                        </div>
+                    </>
+                )}
+                {bill.payments && bill.payments.length > 0 && (
+                    <div className="pt-2 space-y-1">
+                        {bill.payments.map((payment, index) => (
+                            <div key={index} className="flex justify-between text-gray-500">
+                                <span>{PAYMENT_METHOD_LABELS[payment.method]}</span>
+                                <span>{formatCurrency(payment.amount)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
            </div>
 
+           {/* Bank Transfer QR */}
+           {showTransferQr && (
+             <div className="flex flex-col items-center border-t border-gray-100 pt-6 mb-6">
+                <p className="text-xs font-bold text-gray-500 uppercase tracking-wider mb-2">Quét mã để chuyển khoản</p>
+                <VietQrCode account={bankAccount} amount={getAmountDue(bill)} memo={getTransferMemo(bill)} />
+                <p className="text-sm font-semibold text-gray-800 mt-2">{bankAccount.accountName}</p>
+                <p className="text-xs text-gray-500">{getBankName(bankAccount.bin) || bankAccount.bin} · {bankAccount.accountNumber}</p>
+                <p className="text-xs text-gray-400 mt-1">Nội dung: {getTransferMemo(bill)}</p>
+             </div>
+           )}
+
            {/* Footer */}
            <div className="text-center border-t border-gray-100 pt-6">
                 <p className="text-gray-400 text-xs italic mb-2">Cảm ơn quý khách và hẹn gặp lại!</p>
-                <p className="text-[10px] text-gray-300 mt-1 tracking-widest">{bill.id.toUpperCase().slice(-12)}</p>
+                <p className="text-[10px] text-gray-300 mt-1 tracking-widest">{getBillReference(bill)}</p>
            </div>
         </div>
 
         {/* Action Buttons */}
+        {showHistory ? (
+        <div className="p-4 bg-gray-50 border-t border-gray-200 flex space-x-3 shrink-0">
+            <button onClick={() => setShowHistory(false)} className="flex-1 py-3 bg-white border border-gray-200 text-gray-700 rounded-2xl hover:bg-gray-100 transition-colors font-bold shadow-sm">
+                Quay lại hóa đơn
+            </button>
+        </div>
+        ) : (
         <div className="p-4 bg-gray-50 border-t border-gray-200 flex space-x-3 shrink-0">
             <button onClick={onClose} className="flex-1 py-3 bg-white border border-gray-200 text-gray-700 rounded-2xl hover:bg-gray-100 transition-colors font-bold shadow-sm">
                 Đóng
             </button>
+            <button onClick={() => setShowHistory(true)} className="py-3 px-4 bg-white border border-gray-200 text-gray-700 rounded-2xl hover:bg-gray-100 transition-colors font-bold shadow-sm flex items-center justify-center" title="Lịch sử chỉnh sửa" aria-label="Lịch sử chỉnh sửa">
+                <ClockIcon className="w-5 h-5" />
+            </button>
             <button onClick={handleDownloadImage} disabled={isDownloading} className="flex-1 py-3 bg-white border border-gray-200 text-gray-700 rounded-2xl hover:bg-gray-100 transition-colors font-bold shadow-sm flex items-center justify-center gap-2">
                 <ArrowDownTrayIcon className="w-5 h-5" />
                 <span>{isDownloading ? '...' : 'Lưu Ảnh'}</span>
@@ -240,6 +314,7 @@ const BillViewModal: React.FC<BillViewModalProps> = ({ bill, onClose, shopName,
                 <span>In</span>
             </button>
         </div>
+        )}
       </div>
     </div>
   );
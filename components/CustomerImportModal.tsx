@@ -0,0 +1,145 @@
+import React, { useMemo, useState } from 'react';
+import type { Customer } from '../types';
+import type { CustomerImportRow } from '../utils/customerImport';
+import { PhoneIcon, CakeIcon } from './icons';
+
+interface CustomerImportModalProps {
+  fileName: string;
+  rows: CustomerImportRow[];
+  onConfirm: (newCustomers: Omit<Customer, 'id'>[], mergedCustomers: Customer[]) => Promise<void>;
+  onClose: () => void;
+}
+
+// Birthdays are stored as YYYY-MM-DD; shown as DD/MM/YYYY
+const formatDob = (dob?: string) => (dob ? dob.split('-').reverse().join('/') : '');
+
+const ContactDetails: React.FC<{ phone?: string; dob?: string }> = ({ phone, dob }) => (
+  <div className="flex flex-wrap items-center gap-3 text-xs text-text-light mt-0.5">
+    <span className="flex items-center gap-1"><PhoneIcon className="w-3.5 h-3.5" />{phone || '---'}</span>
+    <span className="flex items-center gap-1"><CakeIcon className="w-3.5 h-3.5" />{formatDob(dob) || '---'}</span>
+  </div>
+);
+
+const CustomerImportModal: React.FC<CustomerImportModalProps> = ({ fileName, rows, onConfirm, onClose }) => {
+  // New contacts are imported and duplicates merged unless unticked
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(rows.filter(row => row.status !== 'invalid').map(row => row.key))
+  );
+  const [isSaving, setIsSaving] = useState(false);
+
+  const newRows = useMemo(() => rows.filter(row => row.status === 'new'), [rows]);
+  const duplicateRows = useMemo(() => rows.filter(row => row.status === 'duplicate'), [rows]);
+  const invalidRows = useMemo(() => rows.filter(row => row.status === 'invalid'), [rows]);
+
+  const toggle = (key: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const selectedNew = newRows.filter(row => selected.has(row.key));
+  // Merging a duplicate that adds nothing new is a no-op, so it isn't counted or saved
+  const selectedMerges = duplicateRows.filter(row =>
+    selected.has(row.key) && row.merged && (row.merged.phone !== row.match!.phone || row.merged.dob !== row.match!.dob)
+  );
+  const changeCount = selectedNew.length + selectedMerges.length;
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    await onConfirm(
+      selectedNew.map(row => ({ name: row.contact.name, phone: row.contact.phone || '', dob: row.contact.dob || '' })),
+      selectedMerges.map(row => row.merged!)
+    );
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-text-main">Nhập Danh Bạ</h3>
+            <p className="text-xs text-text-light truncate">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {rows.length === 0 && (
+            <p className="text-center text-gray-400 italic py-4">Không tìm thấy liên hệ nào trong file.</p>
+          )}
+
+          {newRows.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-bold text-text-main">Khách mới ({newRows.length})</h4>
+              {newRows.map(row => (
+                <label key={row.key} className="flex items-start gap-3 p-3 bg-gray-50 rounded-2xl cursor-pointer">
+                  <input type="checkbox" checked={selected.has(row.key)} onChange={() => toggle(row.key)} className="mt-1 accent-primary" />
+                  <div className="min-w-0">
+                    <p className="font-semibold text-text-main truncate">{row.contact.name}</p>
+                    <ContactDetails phone={row.contact.phone} dob={row.contact.dob} />
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          {duplicateRows.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-bold text-text-main">Trùng với khách đã có ({duplicateRows.length})</h4>
+              <p className="text-xs text-text-light">Khi gộp, chỉ bổ sung số điện thoại / ngày sinh còn trống; thông tin đã lưu được giữ nguyên.</p>
+              {duplicateRows.map(row => (
+                <div key={row.key} className="p-3 bg-gray-50 rounded-2xl space-y-2">
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-text-main truncate">{row.contact.name}</p>
+                      <ContactDetails phone={row.contact.phone} dob={row.contact.dob} />
+                    </div>
+                    <div className="flex p-0.5 bg-gray-200 rounded-xl shrink-0 text-xs font-bold">
+                      <button
+                        onClick={() => selected.has(row.key) && toggle(row.key)}
+                        className={`px-3 py-1 rounded-lg ${!selected.has(row.key) ? 'bg-white text-text-main shadow-sm' : 'text-gray-500'}`}
+                      >
+                        Bỏ qua
+                      </button>
+                      <button
+                        onClick={() => !selected.has(row.key) && toggle(row.key)}
+                        className={`px-3 py-1 rounded-lg ${selected.has(row.key) ? 'bg-white text-primary shadow-sm' : 'text-gray-500'}`}
+                      >
+                        Gộp
+                      </button>
+                    </div>
+                  </div>
+                  <p className="text-xs text-text-light">
+                    Trùng {row.matchedBy === 'phone' ? 'số điện thoại' : 'tên'} với <span className="font-semibold text-text-main">{row.match!.name}</span>
+                    {' '}({row.match!.phone || 'chưa có SĐT'}{row.match!.dob ? `, ${formatDob(row.match!.dob)}` : ''})
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {invalidRows.length > 0 && (
+            <p className="text-sm text-red-500">{invalidRows.length} liên hệ không có tên sẽ bị bỏ qua.</p>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 bg-gray-100 rounded-2xl font-bold text-gray-600">Hủy</button>
+          <button
+            onClick={handleConfirm}
+            disabled={changeCount === 0 || isSaving}
+            className="flex-1 py-3 bg-primary text-white rounded-2xl font-bold hover:bg-primary-hover shadow-lg shadow-primary/30 disabled:bg-gray-300 disabled:shadow-none"
+          >
+            {isSaving ? 'Đang lưu...' : `Lưu ${changeCount} khách hàng`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerImportModal;
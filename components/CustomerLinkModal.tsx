@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import type { CustomerLinkGroup } from '../utils/customerLinks';
+import { PhoneIcon, CakeIcon } from './icons';
+
+interface CustomerLinkModalProps {
+  groups: CustomerLinkGroup[];
+  onLink: (group: CustomerLinkGroup, customerId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+// Birthdays are stored as YYYY-MM-DD; shown as DD/MM/YYYY
+const formatDob = (dob?: string) => (dob ? dob.split('-').reverse().join('/') : '');
+
+const CustomerLinkModal: React.FC<CustomerLinkModalProps> = ({ groups, onLink, onClose }) => {
+  // Chosen profile per name; nothing is preselected since the point is that it can't be guessed
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  const handleLink = async (group: CustomerLinkGroup) => {
+    setSavingKey(group.nameKey);
+    await onLink(group, choices[group.nameKey]);
+    setSavingKey(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-text-main">Gán Hóa Đơn Cho Khách</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <p className="text-sm text-text-light">
+            Các hóa đơn và lịch hẹn dưới đây mang tên trùng với nhiều khách hàng. Chọn khách hàng đúng để gộp lịch sử vào hồ sơ đó.
+          </p>
+
+          {groups.length === 0 && (
+            <p className="text-center text-gray-400 italic py-4">Không còn hóa đơn nào cần gán.</p>
+          )}
+
+          {groups.map(group => (
+            <div key={group.nameKey} className="bg-gray-50 rounded-2xl p-4 space-y-3">
+              <div>
+                <h4 className="font-bold text-text-main">{group.name}</h4>
+                <p className="text-xs text-text-light mt-0.5">
+                  {group.billIds.length} hóa đơn{group.bookingIds.length > 0 ? `, ${group.bookingIds.length} lịch hẹn` : ''}
+                </p>
+              </div>
+              <div className="space-y-2">
+                {group.candidates.map(customer => (
+                  <label key={customer.id} className="flex items-start gap-3 p-3 bg-white rounded-xl cursor-pointer">
+                    <input
+                      type="radio"
+                      name={`link-${group.nameKey}`}
+                      checked={choices[group.nameKey] === customer.id}
+                      onChange={() => setChoices(prev => ({ ...prev, [group.nameKey]: customer.id }))}
+                      className="mt-1 accent-primary"
+                    />
+                    <div className="min-w-0">
+                      <p className="font-semibold text-text-main truncate">{customer.name}</p>
+                      <div className="flex flex-wrap items-center gap-3 text-xs text-text-light mt-0.5">
+                        <span className="flex items-center gap-1"><PhoneIcon className="w-3.5 h-3.5" />{customer.phone || '---'}</span>
+                        <span className="flex items-center gap-1"><CakeIcon className="w-3.5 h-3.5" />{formatDob(customer.dob) || '---'}</span>
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={() => handleLink(group)}
+                disabled={!choices[group.nameKey] || savingKey !== null}
+                className="w-full py-2.5 bg-primary text-white rounded-xl text-sm font-bold hover:bg-primary-hover disabled:bg-gray-300"
+              >
+                {savingKey === group.nameKey ? 'Đang lưu...' : 'Gán cho khách đã chọn'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomerLinkModal;
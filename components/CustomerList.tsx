@@ -1,7 +1,18 @@
-import React, { useMemo, useState, useEffect } from 'react';
-import type { Bill, Customer } from '../types';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import type { Bill, Booking, Customer } from '../types';
 import { formatCurrency, formatDateTime } from '../utils/dateUtils';
-import { GoldMedalIcon, SilverMedalIcon, BronzeMedalIcon, UserPlusIcon, PhoneIcon, CakeIcon, PencilIcon, TrashIcon } from './icons';
+import { GoldMedalIcon, SilverMedalIcon, BronzeMedalIcon, UserPlusIcon, PhoneIcon, CakeIcon, PencilIcon, TrashIcon, CloudArrowUpIcon, UsersIcon, MagnifyingGlassIcon } from './icons';
+import { parseContactsFile, planCustomerImport, CustomerImportError } from '../utils/customerImport';
+import type { CustomerImportRow } from '../utils/customerImport';
+import CustomerImportModal from './CustomerImportModal';
+import type { CustomerAggregate } from '../utils/archive';
+import { customerNameKey, findCustomerForRecord, findAmbiguousLinks } from '../utils/customerLinks';
+import type { CustomerLinkGroup } from '../utils/customerLinks';
+import CustomerLinkModal from './CustomerLinkModal';
+import CustomerMergeModal from './CustomerMergeModal';
+import type { MergeGroup } from './CustomerMergeModal';
+import { suggestDuplicateGroups } from '../utils/customerMerge';
+import { formatPhone, isPhoneQuery, isValidPhone, phoneMatchesQuery } from '../utils/phone';
 
 interface VisitRecord {
     date: string;
@@ -16,15 +27,21 @@ export interface CustomerStat {
     totalSpent: number;
     visitCount: number;
     lastVisitDate: string;
-    visitHistory: VisitRecord[];
+    visitHistory: VisitRecord[]; // Recent bills only; archived ones are counted in the totals
+    archivedVisitCount: number;
 }
 
 interface CustomerListProps {
     bills: Bill[];
+    archivedCustomers?: Record<string, CustomerAggregate>; // Totals of archived bills, by customer id or lowercased name
+    bookings: Booking[];
     customers: Customer[];
     onAddCustomer: (customer: Omit<Customer, 'id'>) => void;
     onUpdateCustomer: (customer: Customer) => void;
     onDeleteCustomer: (customer: CustomerStat) => void;
+    onImportCustomers: (newCustomers: Omit<Customer, 'id'>[], mergedCustomers: Customer[]) => Promise<void>;
+    onLinkRecords: (group: CustomerLinkGroup, customerId: string) => Promise<void>;
+    onMergeCustomers: (members: CustomerStat[], survivor: CustomerStat, fields: { phone: string; dob: string }) => Promise<void>;
 }
 
 // Helper to display date only (DD/MM/YYYY) avoiding TZ issues
@@ -39,15 +56,35 @@ const formatDateOnly = (dateStr: string) => {
     }
 };
 
+// Several archived groups can land on one row, e.g. a profile's linked bills and its name-only ones
+const combineAggregates = (a: CustomerAggregate | undefined, b: CustomerAggregate): CustomerAggregate => {
+    if (!a) return b;
+    const latest = a.lastVisitDate > b.lastVisitDate ? a : b;
+    return { ...latest, totalSpent: a.totalSpent + b.totalSpent, visitCount: a.visitCount + b.visitCount };
+};
+
 const CustomerList: React.FC<CustomerListProps> = ({ 
-    bills, customers, onAddCustomer, onUpdateCustomer, onDeleteCustomer 
+    bills, archivedCustomers, bookings, customers, onAddCustomer, onUpdateCustomer, onDeleteCustomer, onImportCustomers, onLinkRecords, onMergeCustomers
 }) => {
     const [selectedCustomer, setSelectedCustomer] = useState<CustomerStat | null>(null);
     const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+    const [contactImport, setContactImport] = useState<{ fileName: string; rows: CustomerImportRow[] } | null>(null);
+    const [isLinkModalOpen, setIsLinkModalOpen] = useState(false);
+    const [searchTerm, setSearchTerm] = useState('');
+    // 'suggested' lists likely duplicates; a customer starts a group picked by hand from the detail view
+    const [mergeSource, setMergeSource] = useState<'suggested' | CustomerStat | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    // Unlinked bills/bookings whose name several profiles share; they count for none of them until assigned
+    const ambiguousLinks = useMemo(() => findAmbiguousLinks(bills, bookings, customers), [bills, bookings, customers]);
     
     // Logic: Merge bills data (stats) with manual customer data (info)
     const customerStats = useMemo(() => {
-        const statsMap = new Map<string, { totalSpent: number; visits: VisitRecord[] }>();
+        type BillStats = { totalSpent: number; visits: VisitRecord[]; archived?: CustomerAggregate };
+        // Bills linked to a profile (by id, or by a name only one profile has) are counted under
+        // that profile; the rest are grouped by name
+        const statsById = new Map<string, BillStats>();
+        const statsByName = new Map<string, BillStats>();
 
         // 1. Aggregate Bills
         if (bills) {
@@ -55,66 +92,93 @@ const CustomerList: React.FC<CustomerListProps> = ({
                 const customerName = bill.customerName.trim();
                 if (!customerName) return; 
                 
-                const lowerName = customerName.toLowerCase();
-                const existingStat = statsMap.get(lowerName) || { totalSpent: 0, visits: [] };
+                const customer = findCustomerForRecord(bill, customers);
+                const [map, key] = customer ? [statsById, customer.id] : [statsByName, customerNameKey(customerName)];
+                const existingStat = map.get(key) || { totalSpent: 0, visits: [] };
                 
-                statsMap.set(lowerName, {
+                map.set(key, {
                     totalSpent: existingStat.totalSpent + bill.total,
                     visits: [...existingStat.visits, { date: bill.date, amount: bill.total }],
                 });
             });
         }
 
-        // 2. Map Manual Customers & Merge
-        // First, create a set of names that are already processed from bills
-        const processedNames = new Set(statsMap.keys());
-        
-        const mergedStats: CustomerStat[] = [];
+        // Archived bills only come as totals per profile (or per name, for bills without one); they
+        // are all older than the recent ones. Matched to profiles the same way as the live bills.
+        Object.values(archivedCustomers || {}).forEach(archived => {
+            const customer = findCustomerForRecord({ customerId: archived.customerId, customerName: archived.name }, customers);
+            const [map, key] = customer ? [statsById, customer.id] : [statsByName, customerNameKey(archived.name)];
+            const existingStat = map.get(key) || { totalSpent: 0, visits: [] };
+            map.set(key, {
+                ...existingStat,
+                totalSpent: existingStat.totalSpent + archived.totalSpent,
+                archived: combineAggregates(existingStat.archived, archived),
+            });
+        });
 
-        // Add manual customers (some might have bills, some not)
-        customers.forEach(cust => {
-            const lowerName = cust.name.trim().toLowerCase();
-            const billStats = statsMap.get(lowerName);
-            
+        const toStat = (billStats: BillStats | undefined) => {
             const visits = billStats ? billStats.visits.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()) : [];
+            return {
+                totalSpent: billStats ? billStats.totalSpent : 0,
+                visitCount: visits.length + (billStats?.archived?.visitCount || 0),
+                lastVisitDate: visits[0]?.date || billStats?.archived?.lastVisitDate || '',
+                visitHistory: visits,
+                archivedVisitCount: billStats?.archived?.visitCount || 0,
+            };
+        };
+
+        const mergedStats: CustomerStat[] = [];
 
+        // 2. Add manual customers (some might have bills, some not)
+        customers.forEach(cust => {
             mergedStats.push({
                 id: cust.id,
                 name: cust.name, // Keep original casing from record
                 phone: cust.phone,
                 dob: cust.dob,
-                totalSpent: billStats ? billStats.totalSpent : 0,
-                visitCount: visits.length,
-                lastVisitDate: visits[0]?.date || '',
-                visitHistory: visits,
+                ...toStat(statsById.get(cust.id)),
             });
-
-            processedNames.delete(lowerName); // Mark as processed
         });
 
-        // Add remaining customers found in bills but not in manual list
+        // 3. Add remaining customers found in bills but not in manual list
         // Note: These won't have phone/dob or ID
-        Array.from(processedNames).forEach(lowerName => {
+        statsByName.forEach((billStats, lowerName) => {
              // Find original name casing from bills (a bit tricky, just take first match)
-             const originalName = bills.find(b => b.customerName.toLowerCase() === lowerName)?.customerName || lowerName;
-             const billStats = statsMap.get(lowerName);
-             if (billStats) {
-                 const visits = billStats.visits.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-                 mergedStats.push({
-                     name: originalName,
-                     totalSpent: billStats.totalSpent,
-                     visitCount: visits.length,
-                     lastVisitDate: visits[0]?.date || '',
-                     visitHistory: visits
-                 });
-             }
+             const originalName = bills.find(b => customerNameKey(b.customerName) === lowerName)?.customerName.trim() || billStats.archived?.name || lowerName;
+             mergedStats.push({ name: originalName, ...toStat(billStats) });
         });
 
         // Sort by Total Spent descending
         mergedStats.sort((a, b) => b.totalSpent - a.totalSpent);
 
         return mergedStats;
-    }, [bills, customers]);
+    }, [bills, archivedCustomers, customers]);
+
+    // Digits search the phone numbers (the last few are enough), anything else the names.
+    // Each row keeps its overall rank so the medals don't move while searching.
+    const visibleStats = useMemo(() => {
+        const ranked = customerStats.map((stat, rank) => ({ stat, rank }));
+        const query = searchTerm.trim();
+        if (!query) return ranked;
+        if (isPhoneQuery(query)) return ranked.filter(({ stat }) => phoneMatchesQuery(stat.phone, query));
+        const nameQuery = query.toLowerCase();
+        return ranked.filter(({ stat }) => stat.name.toLowerCase().includes(nameQuery));
+    }, [customerStats, searchTerm]);
+
+    const duplicateGroups = useMemo(() => suggestDuplicateGroups(customerStats), [customerStats]);
+
+    const mergeGroups: MergeGroup[] = mergeSource === 'suggested' ? duplicateGroups : mergeSource ? [{ members: [mergeSource] }] : [];
+
+    const handleMergeCustomers = async (members: CustomerStat[], survivor: CustomerStat, fields: { phone: string; dob: string }) => {
+        try {
+            await onMergeCustomers(members, survivor, fields);
+            // A hand-picked group is done; suggestions refresh from the new list
+            if (mergeSource !== 'suggested') setMergeSource(null);
+        } catch (error) {
+            console.error("Failed to merge customers", error);
+            alert('Đã xảy ra lỗi khi gộp khách hàng.');
+        }
+    };
 
     // Handle saving new customer
     const handleSaveNewCustomer = (data: {name: string, phone: string, dob: string}) => {
@@ -122,6 +186,45 @@ const CustomerList: React.FC<CustomerListProps> = ({
         setIsAddModalOpen(false);
     };
 
+    // Contacts from a phone (.vcf) or spreadsheet (.csv), previewed before saving
+    const handleImportFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            try {
+                const contacts = parseContactsFile(file.name, event.target?.result as string);
+                setContactImport({ fileName: file.name, rows: planCustomerImport(contacts, customers) });
+            } catch (error) {
+                console.error("Failed to read contacts file", error);
+                alert(error instanceof CustomerImportError ? error.message : 'Đã xảy ra lỗi khi đọc file danh bạ.');
+            } finally {
+                e.target.value = '';
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    const handleLinkRecords = async (group: CustomerLinkGroup, customerId: string) => {
+        try {
+            await onLinkRecords(group, customerId);
+        } catch (error) {
+            console.error("Failed to link records to customer", error);
+            alert('Đã xảy ra lỗi khi gán hóa đơn cho khách hàng.');
+        }
+    };
+
+    const handleConfirmImport = async (newCustomers: Omit<Customer, 'id'>[], mergedCustomers: Customer[]) => {
+        try {
+            await onImportCustomers(newCustomers, mergedCustomers);
+            setContactImport(null);
+        } catch (error) {
+            console.error("Failed to import customers", error);
+            alert('Đã xảy ra lỗi khi lưu khách hàng.');
+        }
+    };
+
     return (
         <div className="space-y-6 pb-10">
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
@@ -129,18 +232,68 @@ const CustomerList: React.FC<CustomerListProps> = ({
                     <h2 className="text-3xl font-bold text-text-main tracking-tight">Khách Hàng</h2>
                     <p className="text-text-light mt-1">Xếp hạng & Quản lý khách hàng</p>
                 </div>
-                <button 
-                    onClick={() => setIsAddModalOpen(true)}
-                    className="flex items-center gap-2 px-5 py-3 bg-primary text-white rounded-2xl shadow-lg shadow-primary/30 hover:bg-primary-hover transition-all transform hover:-translate-y-0.5 font-semibold"
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => setMergeSource('suggested')}
+                        title="Tìm và gộp khách hàng bị trùng"
+                        className="flex items-center gap-2 px-4 py-3 bg-white text-text-main rounded-2xl shadow-card hover:shadow-md transition-all font-semibold"
+                    >
+                        <UsersIcon className="w-5 h-5 text-primary" />
+                        <span>Gộp trùng</span>
+                        {duplicateGroups.length > 0 && (
+                            <span className="text-xs px-2 py-0.5 bg-orange-50 text-orange-600 rounded-full font-bold">{duplicateGroups.length}</span>
+                        )}
+                    </button>
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        title="Nhập từ danh bạ điện thoại (.vcf) hoặc file CSV"
+                        className="flex items-center gap-2 px-4 py-3 bg-white text-text-main rounded-2xl shadow-card hover:shadow-md transition-all font-semibold"
+                    >
+                        <CloudArrowUpIcon className="w-5 h-5 text-primary" />
+                        <span>Nhập danh bạ</span>
+                    </button>
+                    <input type="file" ref={importInputRef} onChange={handleImportFileChange} accept=".vcf,.csv,text/vcard,text/csv" className="hidden" />
+                    <button 
+                        onClick={() => setIsAddModalOpen(true)}
+                        className="flex items-center gap-2 px-5 py-3 bg-primary text-white rounded-2xl shadow-lg shadow-primary/30 hover:bg-primary-hover transition-all transform hover:-translate-y-0.5 font-semibold"
+                    >
+                        <UserPlusIcon className="w-5 h-5" />
+                        <span>Thêm khách hàng</span>
+                    </button>
+                </div>
+            </div>
+
+            {ambiguousLinks.length > 0 && (
+                <button
+                    onClick={() => setIsLinkModalOpen(true)}
+                    className="w-full text-left flex items-center justify-between gap-3 px-4 py-3 bg-orange-50 border border-orange-100 rounded-2xl text-sm text-orange-600 font-medium"
                 >
-                    <UserPlusIcon className="w-5 h-5" />
-                    <span>Thêm khách hàng</span>
+                    <span>{ambiguousLinks.length} tên khách trùng với nhiều hồ sơ. Chọn khách hàng cho các hóa đơn này.</span>
+                    <span className="font-bold shrink-0">Gán ngay</span>
                 </button>
-            </div>
+            )}
+
+            {customerStats.length > 0 && (
+                <div className="relative group">
+                    <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
+                        <MagnifyingGlassIcon className="w-5 h-5 text-gray-400 group-focus-within:text-primary transition-colors" />
+                    </div>
+                    <input
+                        type="text"
+                        placeholder="Tìm tên hoặc số điện thoại..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="w-full pl-11 pr-4 py-3.5 border-none rounded-2xl outline-none text-text-main placeholder:text-gray-400 bg-white shadow-card focus:shadow-md focus:ring-2 focus:ring-primary/20 transition-all duration-300"
+                    />
+                </div>
+            )}
 
             {customerStats.length > 0 ? (
                 <div className="space-y-4">
-                    {customerStats.map((stat, index) => (
+                    {visibleStats.length === 0 && (
+                        <p className="text-center text-gray-400 italic py-4">Không tìm thấy khách hàng phù hợp.</p>
+                    )}
+                    {visibleStats.map(({ stat, rank: index }) => (
                         <button 
                             key={index} 
                             onClick={() => setSelectedCustomer(stat)}
@@ -158,6 +311,7 @@ const CustomerList: React.FC<CustomerListProps> = ({
                             
                             <div className="flex-grow min-w-0 z-10">
                                 <h3 className="text-lg font-bold text-text-main truncate">{stat.name}</h3>
+                                {stat.phone && <p className="text-xs text-text-light">{formatPhone(stat.phone)}</p>}
                                 <div className="flex items-center gap-3 mt-1">
                                     <span className="text-xs bg-pink-50 text-primary px-2 py-0.5 rounded-md font-medium">
                                         {stat.visitCount} lần
@@ -193,6 +347,34 @@ const CustomerList: React.FC<CustomerListProps> = ({
                     onDelete={onDeleteCustomer}
                     // If customer doesn't have ID, we need to create it when they edit
                     onCreate={(data) => onAddCustomer(data)}
+                    onMerge={() => { setMergeSource(selectedCustomer); setSelectedCustomer(null); }}
+                />
+            )}
+
+            {mergeSource && (
+                <CustomerMergeModal
+                    groups={mergeGroups}
+                    allCustomers={customerStats}
+                    onMerge={handleMergeCustomers}
+                    onClose={() => setMergeSource(null)}
+                />
+            )}
+
+            {/* Contact Import Preview */}
+            {contactImport && (
+                <CustomerImportModal
+                    fileName={contactImport.fileName}
+                    rows={contactImport.rows}
+                    onConfirm={handleConfirmImport}
+                    onClose={() => setContactImport(null)}
+                />
+            )}
+
+            {isLinkModalOpen && (
+                <CustomerLinkModal
+                    groups={ambiguousLinks}
+                    onLink={handleLinkRecords}
+                    onClose={() => setIsLinkModalOpen(false)}
                 />
             )}
 
@@ -228,6 +410,10 @@ const CustomerEditModal: React.FC<CustomerEditModalProps> = ({ onClose, onSave,
             alert("Tên khách hàng là bắt buộc");
             return;
         }
+        if (phone.trim() && !isValidPhone(phone) &&
+            !window.confirm("Số điện thoại không đúng định dạng số Việt Nam (10 số, đầu số di động hợp lệ). Vẫn lưu?")) {
+            return;
+        }
         onSave({name, phone, dob});
     };
 
@@ -246,6 +432,9 @@ const CustomerEditModal: React.FC<CustomerEditModalProps> = ({ onClose, onSave,
                      <div>
                          <label className="block text-sm font-medium text-text-main mb-1">Số điện thoại</label>
                          <input type="tel" value={phone} onChange={e => setPhone(e.target.value)} className="w-full px-4 py-3 bg-gray-50 rounded-2xl outline-none focus:ring-2 focus:ring-primary/20" placeholder="0901234567" />
+                         {phone.trim() && !isValidPhone(phone) && (
+                             <p className="text-xs text-orange-500 mt-1 pl-1">Số điện thoại có vẻ chưa đúng</p>
+                         )}
                      </div>
                      <div>
                          <label className="block text-sm font-medium text-text-main mb-1">Ngày sinh</label>
@@ -267,9 +456,10 @@ interface CustomerDetailModalProps {
     onUpdate: (customer: Customer) => void;
     onDelete: (customer: CustomerStat) => void;
     onCreate: (data: {name: string, phone: string, dob: string}) => void;
+    onMerge: () => void;
 }
 
-const CustomerDetailModal: React.FC<CustomerDetailModalProps> = ({ customerStat, onClose, onUpdate, onDelete, onCreate }) => {
+const CustomerDetailModal: React.FC<CustomerDetailModalProps> = ({ customerStat, onClose, onUpdate, onDelete, onCreate, onMerge }) => {
     const [isEditing, setIsEditing] = useState(false);
     const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
@@ -318,7 +508,7 @@ const CustomerDetailModal: React.FC<CustomerDetailModalProps> = ({ customerStat,
                          <div className="flex items-center justify-center gap-4 mt-2 text-sm text-text-light">
                              <div className="flex items-center gap-1">
                                  <PhoneIcon className="w-4 h-4" />
-                                 <span>{customerStat.phone || '---'}</span>
+                                 <span>{formatPhone(customerStat.phone) || '---'}</span>
                              </div>
                              <div className="flex items-center gap-1">
                                  <CakeIcon className="w-4 h-4" />
@@ -332,6 +522,9 @@ const CustomerDetailModal: React.FC<CustomerDetailModalProps> = ({ customerStat,
                          <button onClick={() => setIsEditing(true)} className="flex items-center gap-2 px-4 py-2 bg-white rounded-xl shadow-sm text-sm font-semibold text-text-main hover:bg-gray-50">
                              <PencilIcon className="w-4 h-4 text-primary" /> Sửa
                          </button>
+                         <button onClick={onMerge} className="flex items-center gap-2 px-4 py-2 bg-white rounded-xl shadow-sm text-sm font-semibold text-text-main hover:bg-gray-50">
+                             <UsersIcon className="w-4 h-4 text-primary" /> Gộp
+                         </button>
                          {/* Always allow delete, even if just virtual customer */}
                          <button onClick={() => setShowDeleteConfirm(true)} className="flex items-center gap-2 px-4 py-2 bg-white rounded-xl shadow-sm text-sm font-semibold text-red-500 hover:bg-red-50">
                              <TrashIcon className="w-4 h-4" /> Xóa
@@ -355,9 +548,14 @@ const CustomerDetailModal: React.FC<CustomerDetailModalProps> = ({ customerStat,
                                 </div>
                             ))}
                         </div>
-                    ) : (
+                    ) : customerStat.archivedVisitCount === 0 && (
                         <p className="text-center text-gray-400 italic py-4">Chưa có lịch sử giao dịch.</p>
                     )}
+                    {customerStat.archivedVisitCount > 0 && (
+                        <p className="text-center text-xs text-text-light mt-4">
+                            Và {customerStat.archivedVisitCount} lần ghé thăm cũ hơn đã được lưu trữ (đã tính trong tổng chi tiêu).
+                        </p>
+                    )}
                 </div>
 
                 {/* Footer Total */}
@@ -375,7 +573,7 @@ const CustomerDetailModal: React.FC<CustomerDetailModalProps> = ({ customerStat,
                     <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-floating">
                         <h3 className="text-xl font-bold text-red-600 mb-2">CẢNH BÁO XÓA</h3>
                         <p className="text-text-main mb-6 font-medium">
-                            Hành động này sẽ xóa vĩnh viễn hồ sơ khách hàng, <span className="text-red-600 font-bold uppercase">TẤT CẢ hóa đơn</span> và <span className="text-red-600 font-bold uppercase">lịch hẹn</span> liên quan đến khách hàng này.
+                            Hành động này sẽ chuyển hồ sơ khách hàng, <span className="text-red-600 font-bold uppercase">TẤT CẢ hóa đơn</span> và <span className="text-red-600 font-bold uppercase">lịch hẹn</span> liên quan đến khách hàng này vào thùng rác.
                             <br/><br/>
                             Bạn có chắc chắn muốn tiếp tục không?
                         </p>
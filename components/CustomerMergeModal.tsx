@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import type { CustomerStat } from './CustomerList';
+import type { DuplicateReason } from '../utils/customerMerge';
+import { fieldOptions } from '../utils/customerMerge';
+import { customerNameKey } from '../utils/customerLinks';
+import { formatCurrency } from '../utils/dateUtils';
+import { formatPhone } from '../utils/phone';
+
+export interface MergeGroup {
+  members: CustomerStat[];
+  reason?: DuplicateReason; // Unset for a group the user started by hand
+}
+
+interface CustomerMergeModalProps {
+  groups: MergeGroup[];
+  allCustomers: CustomerStat[];
+  onMerge: (members: CustomerStat[], survivor: CustomerStat, fields: { phone: string; dob: string }) => Promise<void>;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Trùng số điện thoại',
+  name: 'Tên gần giống nhau',
+};
+
+// Rows of the customer list without a profile are told apart by name
+const memberKey = (member: CustomerStat) => member.id || `name:${customerNameKey(member.name)}`;
+
+// Birthdays are stored as YYYY-MM-DD; shown as DD/MM/YYYY
+const formatDob = (dob?: string) => (dob ? dob.split('-').reverse().join('/') : '');
+
+const MergeGroupCard: React.FC<{
+  group: MergeGroup;
+  allCustomers: CustomerStat[];
+  onMerge: CustomerMergeModalProps['onMerge'];
+}> = ({ group, allCustomers, onMerge }) => {
+  const [members, setMembers] = useState<CustomerStat[]>(group.members);
+  const [included, setIncluded] = useState<Set<string>>(() => new Set(group.members.map(memberKey)));
+  // Profiles make the best survivor, then whoever has visited most
+  const [survivorKey, setSurvivorKey] = useState(() =>
+    memberKey([...group.members].sort((a, b) => Number(!!b.id) - Number(!!a.id) || b.visitCount - a.visitCount)[0])
+  );
+  const [phone, setPhone] = useState<string | null>(null);
+  const [dob, setDob] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selected = members.filter(member => included.has(memberKey(member)));
+  const survivor = selected.find(member => memberKey(member) === survivorKey) || selected[0];
+  const phoneOptions = survivor ? fieldOptions(selected, survivor, 'phone') : [];
+  const dobOptions = survivor ? fieldOptions(selected, survivor, 'dob') : [];
+  // The survivor's own value (or the first one anybody has) unless another was picked
+  const chosenPhone = phone !== null && phoneOptions.includes(phone) ? phone : phoneOptions[0] || '';
+  const chosenDob = dob !== null && dobOptions.includes(dob) ? dob : dobOptions[0] || '';
+
+  const addable = useMemo(() => {
+    const keys = new Set(members.map(memberKey));
+    return allCustomers.filter(customer => !keys.has(memberKey(customer)));
+  }, [allCustomers, members]);
+
+  const toggle = (key: string) => {
+    setIncluded(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleAdd = (key: string) => {
+    const customer = addable.find(c => memberKey(c) === key);
+    if (!customer) return;
+    setMembers(prev => [...prev, customer]);
+    setIncluded(prev => new Set(prev).add(key));
+  };
+
+  const handleMerge = async () => {
+    if (!survivor) return;
+    const others = selected.filter(member => member !== survivor).map(member => member.name).join(', ');
+    if (!window.confirm(`Gộp ${others} vào "${survivor.name}"? Hóa đơn và lịch hẹn sẽ được chuyển sang khách hàng này.`)) return;
+    setIsSaving(true);
+    await onMerge(selected, survivor, { phone: chosenPhone, dob: chosenDob });
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-2xl p-4 space-y-3">
+      {group.reason && (
+        <span className="text-xs px-2 py-0.5 bg-orange-50 text-orange-600 rounded-full font-bold">{REASON_LABELS[group.reason]}</span>
+      )}
+
+      <div className="space-y-2">
+        {members.map(member => {
+          const key = memberKey(member);
+          const isIncluded = included.has(key);
+          return (
+            <div key={key} className={`flex items-center gap-3 p-3 bg-white rounded-xl ${isIncluded ? '' : 'opacity-50'}`}>
+              <input type="checkbox" checked={isIncluded} onChange={() => toggle(key)} className="accent-primary" title="Gộp khách này" />
+              <div className="min-w-0 flex-grow">
+                <p className="font-semibold text-text-main truncate">{member.name}</p>
+                <p className="text-xs text-text-light">
+                  {member.visitCount} lần · {formatCurrency(member.totalSpent)}{member.phone ? ` · ${formatPhone(member.phone)}` : ''}{member.id ? '' : ' · Chưa có hồ sơ'}
+                </p>
+              </div>
+              <label className="flex items-center gap-1 text-xs font-semibold text-text-light shrink-0 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={survivor === member}
+                  disabled={!isIncluded}
+                  onChange={() => setSurvivorKey(key)}
+                  className="accent-primary"
+                />
+                Giữ lại
+              </label>
+            </div>
+          );
+        })}
+      </div>
+
+      {addable.length > 0 && (
+        <select
+          value=""
+          onChange={e => handleAdd(e.target.value)}
+          className="w-full px-3 py-2 bg-white rounded-xl outline-none text-sm text-text-main"
+        >
+          <option value="">+ Thêm khách hàng khác vào nhóm...</option>
+          {addable.map(customer => (
+            <option key={memberKey(customer)} value={memberKey(customer)}>
+              {customer.name}{customer.phone ? ` (${formatPhone(customer.phone)})` : ''}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {phoneOptions.length > 1 && (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm font-medium text-text-main">Số điện thoại</span>
+          <select value={chosenPhone} onChange={e => setPhone(e.target.value)} className="px-3 py-2 bg-white rounded-xl outline-none text-sm font-semibold text-text-main">
+            {phoneOptions.map(option => <option key={option} value={option}>{formatPhone(option)}</option>)}
+          </select>
+        </div>
+      )}
+      {dobOptions.length > 1 && (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm font-medium text-text-main">Ngày sinh</span>
+          <select value={chosenDob} onChange={e => setDob(e.target.value)} className="px-3 py-2 bg-white rounded-xl outline-none text-sm font-semibold text-text-main">
+            {dobOptions.map(option => <option key={option} value={option}>{formatDob(option)}</option>)}
+          </select>
+        </div>
+      )}
+
+      <button
+        onClick={handleMerge}
+        disabled={selected.length < 2 || isSaving}
+        className="w-full py-2.5 bg-primary text-white rounded-xl text-sm font-bold hover:bg-primary-hover disabled:bg-gray-300"
+      >
+        {isSaving ? 'Đang gộp...' : survivor && selected.length >= 2 ? `Gộp ${selected.length} khách vào "${survivor.name}"` : 'Chọn ít nhất 2 khách để gộp'}
+      </button>
+    </div>
+  );
+};
+
+const CustomerMergeModal: React.FC<CustomerMergeModalProps> = ({ groups, allCustomers, onMerge, onClose }) => (
+  <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70] p-4" onClick={onClose}>
+    <div className="bg-white w-full max-w-lg rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+      <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+        <h3 className="text-xl font-bold text-text-main">Gộp Khách Hàng Trùng</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+      </div>
+
+      <div className="p-6 space-y-5 overflow-y-auto">
+        <p className="text-sm text-text-light">
+          Chọn khách hàng giữ lại; hóa đơn, lịch hẹn, số điện thoại và ngày sinh của các khách còn lại được gộp vào đó.
+          Hồ sơ bị gộp được chuyển vào thùng rác.
+        </p>
+
+        {groups.length === 0 && (
+          <p className="text-center text-gray-400 italic py-4">Không tìm thấy khách hàng nào có vẻ bị trùng.</p>
+        )}
+
+        {groups.map(group => (
+          <MergeGroupCard
+            key={group.members.map(memberKey).join('|')}
+            group={group}
+            allCustomers={allCustomers}
+            onMerge={onMerge}
+          />
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default CustomerMergeModal;
@@ -1,11 +1,15 @@
-import React, { useMemo } from 'react';
-import type { Bill } from '../types';
+import React, { useMemo, useState } from 'react';
+import type { Bill, Technician } from '../types';
 import { isToday, isWithinThisWeek, isWithinThisMonth, formatCurrency } from '../utils/dateUtils';
 import { ChartBarIcon } from './icons';
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, summarizePayments } from '../utils/payments';
+import { getTip, summarizeTipsByTechnician } from '../utils/tips';
+import { summarizeDiscounts } from '../utils/discounts';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area } from 'recharts';
 
 interface DashboardProps {
   bills: Bill[];
+  staff?: Technician[];
   onViewRevenueHistory: () => void;
 }
 
@@ -64,6 +68,14 @@ const SummaryCard: React.FC<SummaryCardProps> = ({ title, amount, description, v
     );
 };
 
+type ReportPeriod = 'today' | 'week' | 'month';
+
+const REPORT_PERIODS: { id: ReportPeriod; label: string; matches: (date: string) => boolean }[] = [
+    { id: 'today', label: 'Hôm nay', matches: isToday },
+    { id: 'week', label: 'Tuần này', matches: isWithinThisWeek },
+    { id: 'month', label: 'Tháng này', matches: isWithinThisMonth },
+];
+
 // Helper to get local YYYY-MM-DD string from a date object or string
 const getLocalDateKey = (dateInput: string | Date): string => {
     const d = new Date(dateInput);
@@ -73,7 +85,22 @@ const getLocalDateKey = (dateInput: string | Date): string => {
     return `${year}-${month}-${day}`;
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ bills, onViewRevenueHistory }) => {
+// Period switch shared by the report cards
+const PeriodSelector: React.FC<{ value: ReportPeriod; onChange: (period: ReportPeriod) => void }> = ({ value, onChange }) => (
+    <div className="flex bg-gray-50 rounded-xl p-1">
+        {REPORT_PERIODS.map(period => (
+            <button
+                key={period.id}
+                onClick={() => onChange(period.id)}
+                className={`px-3 py-1 rounded-lg text-xs font-semibold transition-colors ${value === period.id ? 'bg-white text-primary shadow-sm' : 'text-text-light'}`}
+            >
+                {period.label}
+            </button>
+        ))}
+    </div>
+);
+
+const Dashboard: React.FC<DashboardProps> = ({ bills, staff = [], onViewRevenueHistory }) => {
     
   const dailyRevenueData = useMemo(() => {
     const data: { [key: string]: number } = {};
@@ -101,6 +128,29 @@ const Dashboard: React.FC<DashboardProps> = ({ bills, onViewRevenueHistory }) =>
     [bills]
   );
 
+  // Tips are paid on top of bill totals, so none of the revenue figures above include them
+  const [tipPeriod, setTipPeriod] = useState<ReportPeriod>('today');
+  const tipReport = useMemo(() => {
+    const period = REPORT_PERIODS.find(p => p.id === tipPeriod)!;
+    const periodBills = bills.filter(bill => period.matches(bill.date));
+    return {
+      total: periodBills.reduce((sum, bill) => sum + getTip(bill), 0),
+      ...summarizeTipsByTechnician(periodBills, staff),
+    };
+  }, [bills, staff, tipPeriod]);
+
+  const [discountPeriod, setDiscountPeriod] = useState<ReportPeriod>('month');
+  const discountReport = useMemo(() => {
+    const period = REPORT_PERIODS.find(p => p.id === discountPeriod)!;
+    return summarizeDiscounts(bills.filter(bill => period.matches(bill.date)));
+  }, [bills, discountPeriod]);
+
+  // What should be in the drawer, the bank account and the card terminal at the end of the day
+  const paymentsToday = useMemo(() =>
+    summarizePayments(bills.filter(bill => isToday(bill.date))),
+    [bills]
+  );
+
   const weeklyChartData = useMemo(() => {
     const today = new Date();
     // Initialize array for last 7 days
@@ -154,7 +204,81 @@ const Dashboard: React.FC<DashboardProps> = ({ bills, onViewRevenueHistory }) =>
             description="Doanh thu tháng"
         />
       </div>
+
+      <div className="bg-white p-6 rounded-3xl shadow-card border border-gray-100">
+        <h3 className="text-lg font-bold text-text-main mb-4">Thanh toán hôm nay</h3>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {PAYMENT_METHODS.map(method => (
+            <div key={method} className="bg-gray-50 rounded-2xl p-4">
+              <p className="text-xs font-medium text-text-light">{PAYMENT_METHOD_LABELS[method]}</p>
+              <p className="text-lg font-bold text-text-main mt-1">{formatCurrency(paymentsToday.byMethod[method])}</p>
+            </div>
+          ))}
+          <div className="bg-gray-50 rounded-2xl p-4">
+            <p className="text-xs font-medium text-text-light">Chưa ghi nhận</p>
+            <p className={`text-lg font-bold mt-1 ${paymentsToday.unrecorded > 0 ? 'text-orange-500' : 'text-text-main'}`}>{formatCurrency(paymentsToday.unrecorded)}</p>
+          </div>
+        </div>
+      </div>
       
+      <div className="bg-white p-6 rounded-3xl shadow-card border border-gray-100">
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-bold text-text-main">Tiền tip theo thợ</h3>
+          <PeriodSelector value={tipPeriod} onChange={setTipPeriod} />
+        </div>
+        {tipReport.total > 0 ? (
+          <div className="space-y-2">
+            {tipReport.technicians.map(entry => (
+              <div key={entry.technician} className="flex items-center justify-between text-sm">
+                <span className="font-medium text-text-main">{entry.technician} <span className="text-xs text-text-light">· {entry.billCount} hóa đơn</span></span>
+                <span className="font-bold text-text-main">{formatCurrency(entry.amount)}</span>
+              </div>
+            ))}
+            {tipReport.unassigned > 0 && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-orange-500">Chưa chia cho thợ</span>
+                <span className="font-bold text-orange-500">{formatCurrency(tipReport.unassigned)}</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between text-sm pt-2 border-t border-gray-100">
+              <span className="font-bold text-text-main">Tổng tiền tip</span>
+              <span className="font-bold text-primary">{formatCurrency(tipReport.total)}</span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-text-light">Chưa có tiền tip trong khoảng thời gian này.</p>
+        )}
+      </div>
+      
+      <div className="bg-white p-6 rounded-3xl shadow-card border border-gray-100">
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <h3 className="text-lg font-bold text-text-main">Giảm giá</h3>
+          <PeriodSelector value={discountPeriod} onChange={setDiscountPeriod} />
+        </div>
+        {discountReport.byReason.length > 0 || discountReport.billDiscount > 0 ? (
+          <div className="space-y-2">
+            {discountReport.byReason.map(entry => (
+              <div key={entry.reason} className="flex items-center justify-between text-sm">
+                <span className="font-medium text-text-main">{entry.reason} <span className="text-xs text-text-light">· {entry.itemCount} dịch vụ</span></span>
+                <span className="font-bold text-text-main">{formatCurrency(entry.amount)}</span>
+              </div>
+            ))}
+            {discountReport.billDiscount > 0 && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-text-light">Giảm trên cả hóa đơn</span>
+                <span className="font-bold text-text-main">{formatCurrency(discountReport.billDiscount)}</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between text-sm pt-2 border-t border-gray-100">
+              <span className="font-bold text-text-main">Tổng giảm giá</span>
+              <span className="font-bold text-red-500">{formatCurrency(discountReport.total)}</span>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-text-light">Chưa có giảm giá trong khoảng thời gian này.</p>
+        )}
+      </div>
+
       <div className="mt-8 bg-white p-6 rounded-3xl shadow-card border border-gray-100">
         <h3 className="text-lg font-bold text-text-main mb-6 flex items-center justify-between">
             <span>Biểu đồ doanh thu</span>
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import type { Bill, Customer, PredefinedService, DataSet, BackupFile } from '../types';
+import { formatCurrency, formatDateTime } from '../utils/dateUtils';
+import { planMerge, applyMergePlan, hasMergeChanges, conflictKey, MERGE_ENTITIES } from '../utils/merge';
+import type { MergeEntity, ConflictResolution } from '../utils/merge';
+
+interface ImportMergeModalProps {
+  current: DataSet;
+  archivedBills: Bill[];
+  trashedKeys: Set<string>; // Trash entry ids
+  incoming: BackupFile;
+  onMerge: (merged: DataSet) => void;
+  onOverwrite: () => void;
+  onClose: () => void;
+}
+
+const ENTITY_LABELS: Record<MergeEntity, string> = {
+  bills: 'Hóa đơn',
+  bookings: 'Lịch hẹn',
+  customers: 'Khách hàng',
+  services: 'Dịch vụ',
+};
+
+// One-line summary used to tell the two sides of a conflict apart
+const describeRecord = (entity: MergeEntity, record: unknown): string => {
+  switch (entity) {
+    case 'bills':
+    case 'bookings': {
+      const bill = record as Bill;
+      return `${bill.customerName} · ${formatDateTime(bill.date)} · ${formatCurrency(bill.total)}`;
+    }
+    case 'customers': {
+      const customer = record as Customer;
+      return [customer.name, customer.phone, customer.dob].filter(Boolean).join(' · ');
+    }
+    case 'services': {
+      const service = record as PredefinedService;
+      return service.priceType === 'variable'
+        ? `${service.name} · ${service.variants?.length || 0} mức giá`
+        : `${service.name} · ${formatCurrency(service.price)}`;
+    }
+  }
+};
+
+const ImportMergeModal: React.FC<ImportMergeModalProps> = ({ current, archivedBills, trashedKeys, incoming, onMerge, onOverwrite, onClose }) => {
+  const [mode, setMode] = useState<'merge' | 'overwrite'>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const plan = useMemo(
+    () => planMerge(current, incoming, { archivedBills, trashedKeys }),
+    [current, incoming, archivedBills, trashedKeys]
+  );
+  const totalConflicts = MERGE_ENTITIES.reduce((sum, entity) => sum + plan[entity].conflicts.length, 0);
+  const totalTrashed = MERGE_ENTITIES.reduce((sum, entity) => sum + plan[entity].trashed.length, 0);
+
+  const setResolution = (key: string, resolution: ConflictResolution) => {
+    setResolutions(prev => ({ ...prev, [key]: resolution }));
+  };
+
+  const setAllResolutions = (resolution: ConflictResolution) => {
+    const next: Record<string, ConflictResolution> = {};
+    MERGE_ENTITIES.forEach(entity => {
+      plan[entity].conflicts.forEach(({ incoming }) => {
+        next[conflictKey(entity, incoming.id)] = resolution;
+      });
+    });
+    setResolutions(next);
+  };
+
+  const handleConfirm = () => {
+    if (mode === 'overwrite') {
+      onOverwrite();
+      return;
+    }
+    onMerge(applyMergePlan(current, plan, resolutions));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4">
+      <div className="bg-white w-full max-w-lg rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-text-main">Khôi Phục Dữ Liệu</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {/* Mode Switcher */}
+          <div className="flex p-1 bg-gray-100 rounded-2xl w-fit">
+            <button
+              onClick={() => setMode('merge')}
+              className={`px-5 py-2 rounded-xl text-sm font-bold transition-all ${mode === 'merge' ? 'bg-white text-primary shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              Gộp dữ liệu
+            </button>
+            <button
+              onClick={() => setMode('overwrite')}
+              className={`px-5 py-2 rounded-xl text-sm font-bold transition-all ${mode === 'overwrite' ? 'bg-white text-red-500 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              Ghi đè toàn bộ
+            </button>
+          </div>
+
+          {mode === 'overwrite' ? (
+            <p className="text-text-main font-medium bg-red-50 text-red-600 p-4 rounded-2xl">
+              Thao tác này sẽ ghi đè lên toàn bộ dữ liệu hiện tại. Bạn có chắc chắn muốn tiếp tục không?
+            </p>
+          ) : (
+            <>
+              {/* Summary */}
+              <div className="grid grid-cols-2 gap-3">
+                {MERGE_ENTITIES.map(entity => {
+                  const entityPlan = plan[entity];
+                  return (
+                    <div key={entity} className="bg-gray-50 p-3 rounded-2xl text-sm">
+                      <p className="font-bold text-text-main mb-1">{ENTITY_LABELS[entity]}</p>
+                      <p className="text-emerald-600">+{entityPlan.added.length} mới</p>
+                      <p className="text-blue-500">{entityPlan.changed.length} bổ sung</p>
+                      <p className="text-orange-500">{entityPlan.conflicts.length} xung đột</p>
+                      <p className="text-gray-400">{entityPlan.unchangedCount} không đổi</p>
+                      {entityPlan.trashed.length > 0 && (
+                        <p className="text-gray-400">{entityPlan.trashed.length} trong thùng rác</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              {plan.addedCategories.length > 0 && (
+                <p className="text-sm text-text-light">Thêm {plan.addedCategories.length} loại dịch vụ mới.</p>
+              )}
+              {plan.addedStaff.length > 0 && (
+                <p className="text-sm text-text-light">Thêm {plan.addedStaff.length} thợ mới.</p>
+              )}
+
+              {/* Records deleted here: skipped, listed so the user knows why */}
+              {totalTrashed > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-bold text-text-main">Đã xóa trên máy này</h4>
+                  <p className="text-xs text-text-light">Các mục này đang nằm trong thùng rác nên sẽ không được gộp lại. Khôi phục từ thùng rác nếu cần.</p>
+                  {MERGE_ENTITIES.map(entity => plan[entity].trashed.map(record => (
+                    <div key={conflictKey(entity, record.id)} className="bg-gray-50 rounded-2xl px-3 py-2 text-sm text-gray-500">
+                      <span className="block text-[10px] font-bold text-gray-400 uppercase">{ENTITY_LABELS[entity]}</span>
+                      {describeRecord(entity, record)}
+                    </div>
+                  )))}
+                </div>
+              )}
+
+              {/* Conflicts */}
+              {totalConflicts > 0 && (
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <h4 className="font-bold text-text-main">Chọn bản giữ lại</h4>
+                    <div className="flex gap-2 text-xs font-semibold">
+                      <button onClick={() => setAllResolutions('local')} className="px-3 py-1.5 bg-gray-100 rounded-xl hover:bg-gray-200">Tất cả: hiện tại</button>
+                      <button onClick={() => setAllResolutions('incoming')} className="px-3 py-1.5 bg-gray-100 rounded-xl hover:bg-gray-200">Tất cả: sao lưu</button>
+                    </div>
+                  </div>
+                  {MERGE_ENTITIES.map(entity => plan[entity].conflicts.map(conflict => {
+                    const key = conflictKey(entity, conflict.incoming.id);
+                    const choice = resolutions[key] || 'local';
+                    return (
+                      <div key={key} className="border border-gray-100 rounded-2xl p-3 text-sm space-y-2">
+                        <div className="flex justify-between text-xs text-gray-400">
+                          <span className="font-bold uppercase tracking-wider">{ENTITY_LABELS[entity]}</span>
+                          <span>Khác: {conflict.fields.join(', ')}</span>
+                        </div>
+                        <button
+                          onClick={() => setResolution(key, 'local')}
+                          className={`w-full text-left px-3 py-2 rounded-xl border-2 transition-all ${choice === 'local' ? 'border-primary bg-pink-50' : 'border-transparent bg-gray-50 hover:bg-gray-100'}`}
+                        >
+                          <span className="block text-[10px] font-bold text-gray-400 uppercase">Hiện tại</span>
+                          {describeRecord(entity, conflict.local)}
+                        </button>
+                        <button
+                          onClick={() => setResolution(key, 'incoming')}
+                          className={`w-full text-left px-3 py-2 rounded-xl border-2 transition-all ${choice === 'incoming' ? 'border-primary bg-pink-50' : 'border-transparent bg-gray-50 hover:bg-gray-100'}`}
+                        >
+                          <span className="block text-[10px] font-bold text-gray-400 uppercase">Bản sao lưu</span>
+                          {describeRecord(entity, conflict.incoming)}
+                        </button>
+                      </div>
+                    );
+                  }))}
+                </div>
+              )}
+
+              {!hasMergeChanges(plan) && (
+                <p className="text-center text-gray-400 italic py-2">Không có dữ liệu mới để gộp.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-100 flex gap-3">
+          <button onClick={onClose} className="flex-1 py-3 bg-gray-100 rounded-2xl font-bold text-gray-600">Hủy</button>
+          <button
+            onClick={handleConfirm}
+            disabled={mode === 'merge' && !hasMergeChanges(plan)}
+            className={`flex-1 py-3 rounded-2xl font-bold text-white shadow-lg transition-all disabled:bg-gray-300 disabled:shadow-none ${mode === 'overwrite' ? 'bg-red-500 hover:bg-red-600 shadow-red-500/30' : 'bg-primary hover:bg-primary-hover shadow-primary/30'}`}
+          >
+            {mode === 'overwrite' ? 'Ghi đè' : 'Xác nhận gộp'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportMergeModal;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { INTEGRITY_CHECKS, STALE_BOOKING_DAYS } from '../utils/integrity';
+import type { IntegrityCheck, IntegrityReport } from '../utils/integrity';
+import { formatDateTime } from '../utils/dateUtils';
+import { CheckIcon } from './icons';
+
+interface IntegrityModalProps {
+  report: IntegrityReport | null;
+  isScanning: boolean;
+  repairingCheck: IntegrityCheck | null;
+  onRescan: () => void;
+  onRepair: (check: IntegrityCheck) => void;
+  onClose: () => void;
+}
+
+const CHECK_INFO: Record<IntegrityCheck, { title: string; description: string; repairLabel: string; confirm: string }> = {
+  orphanedCategory: {
+    title: 'Dịch vụ mất loại',
+    description: 'Dịch vụ thuộc loại dịch vụ đã bị xóa.',
+    repairLabel: 'Chuyển sang "Khác"',
+    confirm: 'Chuyển các dịch vụ này sang nhóm "Khác"?',
+  },
+  billTotalMismatch: {
+    title: 'Tổng tiền sai lệch',
+    description: 'Tổng tiền đã lưu khác với tổng dịch vụ trừ giảm giá.',
+    repairLabel: 'Tính lại tổng tiền',
+    confirm: 'Cập nhật tổng tiền của các hóa đơn này theo dịch vụ và giảm giá? Khoản thanh toán được chỉnh theo tổng mới; hóa đơn thanh toán nhiều hình thức cần sửa tay. Thay đổi được ghi vào lịch sử hóa đơn.',
+  },
+  staleBooking: {
+    title: 'Lịch hẹn bị bỏ quên',
+    description: `Lịch hẹn đã qua hơn ${STALE_BOOKING_DAYS} ngày mà chưa chuyển thành hóa đơn.`,
+    repairLabel: 'Chuyển vào thùng rác',
+    confirm: 'Chuyển các lịch hẹn này vào thùng rác?',
+  },
+  customerNameMismatch: {
+    title: 'Tên khách không khớp',
+    description: 'Tên trên hóa đơn chỉ khác tên khách hàng ở chữ hoa/thường hoặc khoảng trắng.',
+    repairLabel: 'Sửa theo tên khách hàng',
+    confirm: 'Sửa tên trên các hóa đơn này cho khớp với hồ sơ khách hàng?',
+  },
+};
+
+const PREVIEW_LIMIT = 5;
+
+const IntegrityModal: React.FC<IntegrityModalProps> = ({
+  report, isScanning, repairingCheck, onRescan, onRepair, onClose
+}) => {
+  const [expanded, setExpanded] = useState<IntegrityCheck | null>(null);
+
+  const totalIssues = report ? INTEGRITY_CHECKS.reduce((sum, check) => sum + report.issues[check].length, 0) : 0;
+
+  const handleRepair = (check: IntegrityCheck) => {
+    if (window.confirm(CHECK_INFO[check].confirm)) onRepair(check);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-text-main">Kiểm Tra Dữ Liệu</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex justify-between items-center gap-3">
+            <p className="text-sm text-text-light">
+              {isScanning && !report ? 'Đang kiểm tra...' :
+               report ? `Kiểm tra lúc ${formatDateTime(report.checkedAt)}` : ''}
+            </p>
+            <button
+              onClick={onRescan}
+              disabled={isScanning}
+              className="px-4 py-2 bg-gray-100 rounded-xl text-sm font-bold text-gray-600 hover:bg-gray-200 disabled:opacity-50"
+            >
+              {isScanning ? 'Đang kiểm tra...' : 'Kiểm tra lại'}
+            </button>
+          </div>
+
+          {report && totalIssues === 0 && (
+            <div className="flex flex-col items-center text-center py-6 gap-2">
+              <div className="w-12 h-12 rounded-full bg-emerald-50 flex items-center justify-center">
+                <CheckIcon className="w-6 h-6 text-emerald-500" />
+              </div>
+              <p className="font-semibold text-text-main">Dữ liệu không có vấn đề nào.</p>
+            </div>
+          )}
+
+          {report && INTEGRITY_CHECKS.map(check => {
+            const issues = report.issues[check];
+            if (issues.length === 0) return null;
+            const info = CHECK_INFO[check];
+            const isExpanded = expanded === check;
+            const shown = isExpanded ? issues : issues.slice(0, PREVIEW_LIMIT);
+            const canRepair = issues.some(issue => !issue.needsReview);
+            return (
+              <div key={check} className="bg-gray-50 rounded-2xl p-4 space-y-3">
+                <div className="flex justify-between items-start gap-3">
+                  <div>
+                    <h4 className="font-bold text-text-main">{info.title}</h4>
+                    <p className="text-xs text-text-light mt-0.5">{info.description}</p>
+                  </div>
+                  <span className="text-xs px-2 py-0.5 bg-red-50 text-red-600 rounded-full font-bold shrink-0">{issues.length}</span>
+                </div>
+                <ul className="space-y-1.5">
+                  {shown.map(issue => (
+                    <li key={issue.recordId} className="text-sm">
+                      <p className="text-text-main truncate">{issue.title}</p>
+                      <p className={`text-xs ${issue.needsReview ? 'text-orange-500' : 'text-text-light'}`}>{issue.detail}</p>
+                    </li>
+                  ))}
+                </ul>
+                {issues.length > PREVIEW_LIMIT && (
+                  <button onClick={() => setExpanded(isExpanded ? null : check)} className="text-xs font-semibold text-primary">
+                    {isExpanded ? 'Thu gọn' : `Xem thêm ${issues.length - PREVIEW_LIMIT} mục`}
+                  </button>
+                )}
+                {canRepair && (
+                  <button
+                    onClick={() => handleRepair(check)}
+                    disabled={repairingCheck !== null || isScanning}
+                    className="w-full py-2.5 bg-primary text-white rounded-xl text-sm font-bold hover:bg-primary-hover disabled:bg-gray-300"
+                  >
+                    {repairingCheck === check ? 'Đang sửa...' : info.repairLabel}
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IntegrityModal;
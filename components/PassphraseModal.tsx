@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+
+interface PassphraseModalProps {
+  mode: 'encrypt' | 'decrypt';
+  // Resolves to an error message to show, or null when done
+  onSubmit: (passphrase: string) => Promise<string | null>;
+  onClose: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+const PassphraseModal: React.FC<PassphraseModalProps> = ({ mode, onSubmit, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isEncrypt = mode === 'encrypt';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isEncrypt) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Mật khẩu phải có ít nhất ${MIN_PASSPHRASE_LENGTH} ký tự.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError('Mật khẩu nhập lại không khớp.');
+        return;
+      }
+    }
+    if (!passphrase) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    const message = await onSubmit(passphrase);
+    setIsSubmitting(false);
+    if (message) setError(message);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/20 backdrop-blur-sm flex items-center justify-center z-[100] p-4">
+      <div className="bg-white p-6 rounded-3xl shadow-floating w-full max-w-sm">
+        <h2 className="text-xl font-bold text-text-main mb-2">
+          {isEncrypt ? 'Sao Lưu Có Mật Khẩu' : 'Nhập Mật Khẩu Sao Lưu'}
+        </h2>
+        <p className="text-sm text-text-light mb-4">
+          {isEncrypt
+            ? 'Tệp sao lưu sẽ được mã hóa. Hãy ghi nhớ mật khẩu, nếu quên sẽ không thể khôi phục dữ liệu.'
+            : 'Tệp sao lưu này đã được mã hóa. Nhập mật khẩu đã dùng khi sao lưu.'}
+        </p>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text-light mb-1">Mật khẩu</label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={e => { setPassphrase(e.target.value); setError(null); }}
+              className="w-full px-4 py-3 border border-gray-100 rounded-2xl focus:outline-none focus:ring-2 focus:ring-primary/50 bg-gray-50 text-text-main"
+              autoFocus
+              autoComplete={isEncrypt ? 'new-password' : 'current-password'}
+            />
+          </div>
+          {isEncrypt && (
+            <div>
+              <label className="block text-sm font-medium text-text-light mb-1">Nhập lại mật khẩu</label>
+              <input
+                type="password"
+                value={confirmation}
+                onChange={e => { setConfirmation(e.target.value); setError(null); }}
+                className="w-full px-4 py-3 border border-gray-100 rounded-2xl focus:outline-none focus:ring-2 focus:ring-primary/50 bg-gray-50 text-text-main"
+                autoComplete="new-password"
+              />
+            </div>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={onClose} className="px-5 py-2.5 text-sm font-semibold text-text-main bg-gray-100 rounded-2xl hover:bg-gray-200 transition-colors">Hủy</button>
+            <button
+              type="submit"
+              disabled={isSubmitting || !passphrase}
+              className="px-5 py-2.5 text-sm font-semibold text-white bg-primary rounded-2xl hover:bg-primary-hover shadow-lg shadow-primary/30 transition-all disabled:bg-gray-300 disabled:shadow-none"
+            >
+              {isSubmitting ? 'Đang xử lý...' : isEncrypt ? 'Sao lưu' : 'Mở khóa'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PassphraseModal;
@@ -0,0 +1,345 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { Bill, CommissionRule, CommissionSettings, PredefinedService, ServiceCategory, Technician } from '../types';
+import { formatCurrency, getTodayDateString } from '../utils/dateUtils';
+import { buildPayroll, describeCommissionRule, DISCOUNT_POLICY_OPTIONS } from '../utils/payroll';
+import type { PayrollStatement } from '../utils/payroll';
+import { ArrowLeftIcon, PlusIcon, PrinterIcon, TrashIcon } from './icons';
+
+interface PayrollModalProps {
+  bills: Bill[];
+  staff: Technician[];
+  services: PredefinedService[];
+  categories: ServiceCategory[];
+  commission: CommissionSettings;
+  onSaveCommission: (settings: CommissionSettings) => void;
+  shopName: string;
+  archiveCutoff?: string; // Bills before this local date are archived and can't be paid from
+  onClose: () => void;
+}
+
+const formatDateKey = (dateKey: string) => dateKey.split('-').reverse().join('/');
+
+const formatDay = (isoString: string) => new Date(isoString).toLocaleDateString('vi-VN', { day: '2-digit', month: '2-digit' });
+
+const PayrollModal: React.FC<PayrollModalProps> = ({ bills, staff, services, categories, commission, onSaveCommission, shopName, archiveCutoff, onClose }) => {
+  const [activeTab, setActiveTab] = useState<'payroll' | 'rules'>('payroll');
+  const [from, setFrom] = useState(() => getTodayDateString().slice(0, 8) + '01');
+  const [to, setTo] = useState(getTodayDateString);
+  const [selectedTechnicianId, setSelectedTechnicianId] = useState<string | null>(null);
+  const [rules, setRules] = useState<CommissionRule[]>(commission.rules);
+  const [discountPolicy, setDiscountPolicy] = useState(commission.discountPolicy);
+  const printableRef = useRef<HTMLDivElement>(null);
+
+  const payroll = useMemo(
+    () => buildPayroll(bills, staff, services, commission, from, to),
+    [bills, staff, services, commission, from, to]
+  );
+  const selectedStatement = payroll.statements.find(statement => statement.technician.id === selectedTechnicianId);
+  const payrollTotal = payroll.statements.reduce((sum, statement) => sum + statement.total, 0);
+  const discountPolicyLabel = DISCOUNT_POLICY_OPTIONS.find(option => option.id === commission.discountPolicy)?.label;
+
+  const addRule = () => {
+    setRules([...rules, { id: 'rule-' + Date.now() + Math.random().toString(36).substr(2, 9), type: 'percent', value: 0 }]);
+  };
+
+  const updateRule = (id: string, patch: Partial<CommissionRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  const removeRule = (id: string) => {
+    setRules(rules.filter(rule => rule.id !== id));
+  };
+
+  const handleSaveRules = () => {
+    if (rules.some(rule => !(rule.value >= 0) || (rule.type === 'percent' && rule.value > 100))) {
+      alert("Hoa hồng theo % phải từ 0 đến 100, số tiền cố định không được âm.");
+      return;
+    }
+    const scopes = new Set(rules.map(rule => `${rule.technicianId || ''}|${rule.categoryId || ''}`));
+    if (scopes.size < rules.length) {
+      alert("Có hai mức hoa hồng cho cùng một thợ và cùng một danh mục. Vui lòng xóa bớt một mức.");
+      return;
+    }
+    onSaveCommission({ rules, discountPolicy });
+  };
+
+  const handlePrint = () => {
+    const content = printableRef.current;
+    if (!content) return;
+    const printWindow = window.open('', '', 'height=600,width=800');
+    if (!printWindow) return;
+    printWindow.document.write('<html><head><title>Phiếu Lương</title>');
+    printWindow.document.write('<script src="https://cdn.tailwindcss.com"></script>');
+    printWindow.document.write('<link href="https://fonts.googleapis.com/css2?family=Noto+Sans:wght@400;500;600;700&display=swap" rel="stylesheet">');
+    printWindow.document.write(`
+      <style>
+        @media print {
+          body { -webkit-print-color-adjust: exact; print-color-adjust: exact; margin: 0; padding: 0; font-family: 'Noto Sans', sans-serif; }
+          .print-container { width: 100%; max-width: 720px; margin: 0 auto; padding: 20px; }
+        }
+      </style>
+    `);
+    printWindow.document.write('</head><body>');
+    printWindow.document.write('<div class="print-container">');
+    printWindow.document.write(content.innerHTML);
+    printWindow.document.write('</div>');
+    printWindow.document.write('</body></html>');
+    printWindow.document.close();
+    printWindow.focus();
+    setTimeout(() => {
+      printWindow.print();
+      printWindow.close();
+    }, 500);
+  };
+
+  const renderStatement = (statement: PayrollStatement) => (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <button onClick={() => setSelectedTechnicianId(null)} className="flex items-center gap-1 text-sm font-semibold text-text-light hover:text-primary">
+          <ArrowLeftIcon className="w-4 h-4" />
+          <span>Quay lại</span>
+        </button>
+        <button onClick={handlePrint} className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-2xl text-sm font-bold hover:bg-primary-hover shadow-lg shadow-primary/30">
+          <PrinterIcon className="w-4 h-4" />
+          <span>In phiếu lương</span>
+        </button>
+      </div>
+
+      <div ref={printableRef} className="bg-white">
+        <div className="text-center mb-4">
+          <p className="text-sm font-semibold text-gray-500">{shopName}</p>
+          <h4 className="text-lg font-bold text-gray-800 uppercase">Phiếu Lương</h4>
+          <p className="text-base font-bold text-gray-800">{statement.technician.name}</p>
+          <p className="text-xs text-gray-500">Từ {formatDateKey(from)} đến {formatDateKey(to)}</p>
+        </div>
+
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-200">
+              <th className="py-1.5 pr-2 font-semibold">Ngày</th>
+              <th className="py-1.5 pr-2 font-semibold">Khách · Dịch vụ</th>
+              <th className="py-1.5 pr-2 font-semibold text-right">Thu</th>
+              <th className="py-1.5 font-semibold text-right">Hoa hồng</th>
+            </tr>
+          </thead>
+          <tbody>
+            {statement.lines.map((line, index) => (
+              <tr key={`${line.billId}-${index}`} className="border-b border-gray-100 align-top">
+                <td className="py-1.5 pr-2 text-gray-500 whitespace-nowrap">{formatDay(line.date)}</td>
+                <td className="py-1.5 pr-2 text-gray-800">
+                  <div className="font-semibold">{line.itemName}{line.quantity > 1 ? ` x${line.quantity}` : ''}</div>
+                  <div className="text-gray-400">{line.customerName}</div>
+                </td>
+                <td className="py-1.5 pr-2 text-right text-gray-800 whitespace-nowrap">
+                  <div>{formatCurrency(line.price - line.discount)}</div>
+                  {line.discount > 0 && <div className="text-gray-400 line-through">{formatCurrency(line.price)}</div>}
+                </td>
+                <td className="py-1.5 text-right whitespace-nowrap">
+                  <div className="font-semibold text-gray-800">{formatCurrency(line.commission)}</div>
+                  <div className={line.rule ? 'text-gray-400' : 'text-orange-500'}>{line.rule ? describeCommissionRule(line.rule) : 'Chưa có mức'}</div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="mt-4 space-y-1.5 text-sm">
+          <div className="flex justify-between text-gray-500">
+            <span>Doanh thu ({statement.lines.length} dịch vụ)</span>
+            <span>{formatCurrency(statement.revenue)}</span>
+          </div>
+          <div className="flex justify-between text-gray-800">
+            <span>Hoa hồng</span>
+            <span className="font-semibold">{formatCurrency(statement.commission)}</span>
+          </div>
+          <div className="flex justify-between text-gray-800">
+            <span>Tiền tip</span>
+            <span className="font-semibold">{formatCurrency(statement.tips)}</span>
+          </div>
+          <div className="flex justify-between text-base font-bold text-gray-900 pt-2 border-t border-gray-200">
+            <span>Tổng nhận</span>
+            <span>{formatCurrency(statement.total)}</span>
+          </div>
+          <p className="text-xs text-gray-400 pt-1">Giảm giá: {discountPolicyLabel}</p>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderPayroll = () => (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs font-semibold text-text-light">
+          Từ ngày
+          <input type="date" value={from} max={to} onChange={e => e.target.value && setFrom(e.target.value)} className="mt-1 w-full px-3 py-2 bg-gray-50 rounded-xl outline-none text-sm text-text-main" />
+        </label>
+        <label className="text-xs font-semibold text-text-light">
+          Đến ngày
+          <input type="date" value={to} min={from} onChange={e => e.target.value && setTo(e.target.value)} className="mt-1 w-full px-3 py-2 bg-gray-50 rounded-xl outline-none text-sm text-text-main" />
+        </label>
+      </div>
+
+      {archiveCutoff && from < archiveCutoff && (
+        <p className="text-xs text-orange-500 bg-orange-50 rounded-xl p-3">
+          Hóa đơn trước ngày {formatDateKey(archiveCutoff)} đã được lưu trữ nên không được tính vào bảng lương.
+        </p>
+      )}
+      {payroll.unassignedItems > 0 && (
+        <p className="text-xs text-orange-500 bg-orange-50 rounded-xl p-3">
+          {payroll.unassignedItems} dịch vụ trong khoảng này chưa được gán thợ nên không ai được tính hoa hồng.
+        </p>
+      )}
+      {payroll.unmatchedTips.length > 0 && (
+        <p className="text-xs text-orange-500 bg-orange-50 rounded-xl p-3">
+          Tiền tip chia cho tên không có trong danh sách thợ nên chưa được tính cho ai:{' '}
+          {payroll.unmatchedTips.map(tip => `${tip.technician || 'Không tên'} ${formatCurrency(tip.amount)}`).join(', ')}.
+        </p>
+      )}
+      {commission.rules.length === 0 && (
+        <p className="text-xs text-orange-500 bg-orange-50 rounded-xl p-3">
+          Chưa có mức hoa hồng nào. Vào "Cách tính hoa hồng" để thiết lập.
+        </p>
+      )}
+
+      {payroll.statements.length > 0 ? (
+        <div className="divide-y divide-gray-100">
+          {payroll.statements.map(statement => (
+            <button
+              key={statement.technician.id}
+              onClick={() => setSelectedTechnicianId(statement.technician.id)}
+              className="w-full flex items-center justify-between gap-3 py-3 text-left hover:bg-gray-50 rounded-xl px-2"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: statement.technician.color }} />
+                <div className="min-w-0">
+                  <p className="font-semibold text-text-main truncate">{statement.technician.name}</p>
+                  <p className="text-xs text-text-light">
+                    Hoa hồng {formatCurrency(statement.commission)} · Tip {formatCurrency(statement.tips)}
+                  </p>
+                </div>
+              </div>
+              <span className="font-bold text-primary whitespace-nowrap">{formatCurrency(statement.total)}</span>
+            </button>
+          ))}
+          <div className="flex justify-between pt-3 px-2 text-sm font-bold text-text-main">
+            <span>Tổng phải trả</span>
+            <span>{formatCurrency(payrollTotal)}</span>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-text-light text-center py-6">Không có dịch vụ hay tiền tip nào của thợ trong khoảng thời gian này.</p>
+      )}
+    </div>
+  );
+
+  const renderRules = () => (
+    <div className="space-y-5">
+      <div>
+        <h4 className="text-sm font-bold text-text-main mb-2">Khi hóa đơn có giảm giá</h4>
+        <div className="space-y-2">
+          {DISCOUNT_POLICY_OPTIONS.map(option => (
+            <label key={option.id} className={`flex items-start gap-3 p-3 rounded-2xl border-2 cursor-pointer ${discountPolicy === option.id ? 'border-primary bg-pink-50' : 'border-transparent bg-gray-50'}`}>
+              <input type="radio" name="discount-policy" checked={discountPolicy === option.id} onChange={() => setDiscountPolicy(option.id)} className="mt-1 accent-primary" />
+              <span>
+                <span className="block text-sm font-semibold text-text-main">{option.label}</span>
+                <span className="block text-xs text-text-light">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-bold text-text-main mb-1">Mức hoa hồng</h4>
+        <p className="text-xs text-text-light mb-3">Mức cụ thể nhất được áp dụng: theo thợ và danh mục, rồi theo thợ, rồi theo danh mục, cuối cùng là mức chung.</p>
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={rule.id} className="grid grid-cols-2 gap-2 p-3 bg-gray-50 rounded-2xl">
+              <select
+                value={rule.technicianId || ''}
+                onChange={e => updateRule(rule.id, { technicianId: e.target.value || undefined })}
+                className="px-2 py-2 bg-white rounded-xl outline-none text-sm text-text-main"
+              >
+                <option value="">Tất cả thợ</option>
+                {staff.map(technician => (
+                  <option key={technician.id} value={technician.id}>{technician.name}{technician.active ? '' : ' (ngừng làm)'}</option>
+                ))}
+              </select>
+              <select
+                value={rule.categoryId || ''}
+                onChange={e => updateRule(rule.id, { categoryId: e.target.value || undefined })}
+                className="px-2 py-2 bg-white rounded-xl outline-none text-sm text-text-main"
+              >
+                <option value="">Tất cả danh mục</option>
+                {categories.map(category => (
+                  <option key={category.id} value={category.id}>{category.name}</option>
+                ))}
+              </select>
+              <div className="col-span-2 flex items-center gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={rule.value}
+                  onChange={e => updateRule(rule.id, { value: parseFloat(e.target.value) || 0 })}
+                  className="flex-grow min-w-0 px-3 py-2 bg-white rounded-xl outline-none text-sm text-text-main"
+                />
+                <select
+                  value={rule.type}
+                  onChange={e => updateRule(rule.id, { type: e.target.value as CommissionRule['type'] })}
+                  className="px-2 py-2 bg-white rounded-xl outline-none text-sm text-text-main"
+                >
+                  <option value="percent">% giá</option>
+                  <option value="fixed">₫ mỗi lần</option>
+                </select>
+                <button onClick={() => removeRule(rule.id)} className="p-2 text-gray-400 hover:text-red-500 rounded-full" title="Xóa">
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+        <button onClick={addRule} className="mt-3 flex items-center gap-2 text-sm font-semibold text-primary hover:underline">
+          <PlusIcon className="w-4 h-4" />
+          <span>Thêm mức hoa hồng</span>
+        </button>
+      </div>
+
+      <button onClick={handleSaveRules} className="w-full py-3 bg-primary text-white rounded-2xl font-bold hover:bg-primary-hover shadow-lg shadow-primary/30">
+        Lưu cách tính
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-lg rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-text-main">Bảng Lương Thợ</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="px-6 pt-4">
+          <div className="flex bg-gray-50 rounded-xl p-1">
+            {([['payroll', 'Bảng lương'], ['rules', 'Cách tính hoa hồng']] as const).map(([tab, label]) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-colors ${activeTab === tab ? 'bg-white text-primary shadow-sm' : 'text-text-light'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {staff.length === 0 ? (
+            <p className="text-sm text-text-light text-center py-6">Chưa có thợ nào. Thêm thợ trong mục Dịch Vụ › Thợ.</p>
+          ) : activeTab === 'rules' ? renderRules() : selectedStatement ? renderStatement(selectedStatement) : renderPayroll()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayrollModal;
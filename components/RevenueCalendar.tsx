@@ -1,11 +1,13 @@
 
 import React, { useState, useMemo } from 'react';
 import type { Bill } from '../types';
+import type { DailyAggregate } from '../utils/archive';
 import { formatCurrency, formatCompactCurrency } from '../utils/dateUtils';
 import { ArrowLeftIcon, ChevronLeftIcon, ChevronRightIcon } from './icons';
 
 interface RevenueCalendarProps {
   bills: Bill[];
+  archivedDaily?: Record<string, DailyAggregate>; // Revenue of archived bills, by local date YYYY-MM-DD
   onBack: () => void;
   onSelectDate: (date: string) => void;
 }
@@ -13,7 +15,7 @@ interface RevenueCalendarProps {
 const MONTH_NAMES = ["Tháng 1", "Tháng 2", "Tháng 3", "Tháng 4", "Tháng 5", "Tháng 6", "Tháng 7", "Tháng 8", "Tháng 9", "Tháng 10", "Tháng 11", "Tháng 12"];
 const DAY_NAMES = ["CN", "T2", "T3", "T4", "T5", "T6", "T7"];
 
-const RevenueCalendar: React.FC<RevenueCalendarProps> = ({ bills, onBack, onSelectDate }) => {
+const RevenueCalendar: React.FC<RevenueCalendarProps> = ({ bills, archivedDaily, onBack, onSelectDate }) => {
   const [currentDate, setCurrentDate] = useState(new Date());
 
   const year = currentDate.getFullYear();
@@ -33,8 +35,16 @@ const RevenueCalendar: React.FC<RevenueCalendarProps> = ({ bills, onBack, onSele
         revenueMap.set(String(day), currentRevenue + bill.total);
       }
     });
+    if (archivedDaily) {
+      const monthPrefix = `${year}-${String(month + 1).padStart(2, '0')}-`;
+      Object.entries(archivedDaily).forEach(([dateKey, aggregate]) => {
+        if (!dateKey.startsWith(monthPrefix)) return;
+        const day = String(Number(dateKey.slice(monthPrefix.length)));
+        revenueMap.set(day, (revenueMap.get(day) || 0) + aggregate.revenue);
+      });
+    }
     return revenueMap;
-  }, [bills, year, month]);
+  }, [bills, archivedDaily, year, month]);
 
   const totalMonthRevenue = useMemo(() => {
     return Array.from(revenueByDay.values()).reduce((sum: number, revenue: number) => sum + revenue, 0);
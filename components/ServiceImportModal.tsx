@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import type { ServiceImportPlan, ServiceImportStatus } from '../utils/serviceImport';
+import { formatCurrency } from '../utils/dateUtils';
+
+interface ServiceImportModalProps {
+  fileName: string;
+  plan: ServiceImportPlan;
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ServiceImportStatus, string> = {
+  create: 'Thêm mới',
+  update: 'Cập nhật',
+  unchanged: 'Không đổi',
+  invalid: 'Lỗi',
+};
+
+const STATUS_STYLES: Record<ServiceImportStatus, string> = {
+  create: 'bg-emerald-50 text-emerald-600',
+  update: 'bg-blue-50 text-blue-600',
+  unchanged: 'bg-gray-100 text-gray-500',
+  invalid: 'bg-red-50 text-red-600',
+};
+
+const ServiceImportModal: React.FC<ServiceImportModalProps> = ({ fileName, plan, onConfirm, onClose }) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const counts = useMemo(() => {
+    const result: Record<ServiceImportStatus, number> = { create: 0, update: 0, unchanged: 0, invalid: 0 };
+    plan.rows.forEach(row => { result[row.status]++; });
+    return result;
+  }, [plan]);
+
+  const changeCount = counts.create + counts.update;
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    await onConfirm();
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
+      <div className="bg-surface w-full max-w-2xl rounded-lg shadow-xl overflow-hidden max-h-[calc(100dvh-5rem)] flex flex-col">
+        <div className="px-6 py-4 border-b border-secondary flex justify-between items-center shrink-0">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-text-main">Nhập Bảng Giá Từ CSV</h3>
+            <p className="text-xs text-text-light truncate">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-text-light hover:text-text-main">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-grow">
+          <div className="flex flex-wrap gap-2">
+            {(Object.keys(STATUS_LABELS) as ServiceImportStatus[]).map(status => (
+              <span key={status} className={`text-xs px-3 py-1 rounded-full font-medium ${STATUS_STYLES[status]}`}>
+                {STATUS_LABELS[status]}: {counts[status]}
+              </span>
+            ))}
+          </div>
+          {plan.newCategories.length > 0 && (
+            <p className="text-sm text-text-light">
+              Loại dịch vụ mới sẽ được tạo: <span className="font-medium text-text-main">{plan.newCategories.map(c => c.name).join(', ')}</span>
+            </p>
+          )}
+
+          <div className="divide-y divide-secondary border border-secondary rounded-lg">
+            {plan.rows.length > 0 ? plan.rows.map(row => (
+              <div key={row.line} className="p-3 flex justify-between items-start gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-text-main truncate">
+                    <span className="text-xs text-text-light mr-2">Dòng {row.line}</span>
+                    {row.name || <span className="italic text-text-light">(không tên)</span>}
+                  </p>
+                  {row.error ? (
+                    <p className="text-xs text-red-500 mt-0.5">{row.error}</p>
+                  ) : row.service && (
+                    <p className="text-xs text-text-light mt-0.5">
+                      {row.categoryName && <span>{row.categoryName} · </span>}
+                      {row.service.priceType === 'variable'
+                        ? (row.service.variants || []).map(v => `${v.name} ${formatCurrency(v.price)}`).join(', ')
+                        : formatCurrency(row.service.price)}
+                      {row.service.allowQuantity && <span> · Đa số lượng</span>}
+                    </p>
+                  )}
+                </div>
+                <span className={`text-[10px] px-2 py-0.5 rounded-full font-medium whitespace-nowrap shrink-0 ${STATUS_STYLES[row.status]}`}>
+                  {STATUS_LABELS[row.status]}
+                </span>
+              </div>
+            )) : (
+              <div className="p-8 text-center text-text-light">File không có dòng dữ liệu nào.</div>
+            )}
+          </div>
+          {counts.invalid > 0 && (
+            <p className="text-xs text-text-light">Các dòng lỗi sẽ được bỏ qua.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-6 border-t border-secondary bg-surface shrink-0">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-secondary text-text-main rounded-lg font-medium hover:bg-secondary/80">Hủy</button>
+          <button
+            onClick={handleConfirm}
+            disabled={changeCount === 0 || isSaving}
+            className="px-4 py-2 bg-primary text-white rounded-lg font-medium hover:bg-primary-hover disabled:bg-gray-300"
+          >
+            {isSaving ? 'Đang lưu...' : `Nhập ${changeCount} dịch vụ`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ServiceImportModal;
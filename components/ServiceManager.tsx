@@ -1,7 +1,12 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import type { PredefinedService, ServiceCategory, PriceVariant } from '../types';
-import { PencilIcon, TrashIcon, PlusIcon, Bars2Icon } from './icons';
+import type { PredefinedService, ServiceCategory, PriceVariant, Technician } from '../types';
+import { PencilIcon, TrashIcon, PlusIcon, Bars2Icon, CloudArrowUpIcon, ArrowDownTrayIcon } from './icons';
 import { formatCurrency } from '../utils/dateUtils';
+import { parseCsv, downloadCsvFile } from '../utils/csv';
+import { planServiceImport, servicesToCsv, ServiceImportError } from '../utils/serviceImport';
+import type { ServiceImportPlan } from '../utils/serviceImport';
+import ServiceImportModal from './ServiceImportModal';
+import StaffManager from './StaffManager';
 
 interface ServiceManagerProps {
   services: PredefinedService[];
@@ -13,13 +18,18 @@ interface ServiceManagerProps {
   updateCategory: (category: ServiceCategory) => void;
   deleteCategory: (id: string) => void;
   reorderCategories?: (categories: ServiceCategory[]) => void;
+  importServices: (services: PredefinedService[], newCategories: ServiceCategory[]) => Promise<void>;
+  staff: Technician[];
+  addTechnician: (technician: Omit<Technician, 'id'>) => void;
+  updateTechnician: (technician: Technician) => void;
 }
 
-type Tab = 'services' | 'categories';
+type Tab = 'services' | 'categories' | 'staff';
 
 const ServiceManager: React.FC<ServiceManagerProps> = ({ 
     services, addService, updateService, deleteService,
-    categories, addCategory, updateCategory, deleteCategory, reorderCategories
+    categories, addCategory, updateCategory, deleteCategory, reorderCategories, importServices,
+    staff, addTechnician, updateTechnician
 }) => {
   const [activeTab, setActiveTab] = useState<Tab>('services');
   const [filterCategory, setFilterCategory] = useState<string>('all');
@@ -41,6 +51,10 @@ const ServiceManager: React.FC<ServiceManagerProps> = ({
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [deleteType, setDeleteType] = useState<'service' | 'category' | null>(null);
 
+  // --- CSV Import State ---
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const [csvImport, setCsvImport] = useState<{ fileName: string; plan: ServiceImportPlan } | null>(null);
+
   // --- DnD State ---
   const dragItem = useRef<number | null>(null);
   const dragOverItem = useRef<number | null>(null);
@@ -172,6 +186,44 @@ const ServiceManager: React.FC<ServiceManagerProps> = ({
       setDeleteType(null);
   };
 
+  // --- CSV Import / Export ---
+  const handleCsvFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+
+      const reader = new FileReader();
+      reader.onload = (event) => {
+          try {
+              const rows = parseCsv(event.target?.result as string);
+              setCsvImport({ fileName: file.name, plan: planServiceImport(rows, services, localCategories) });
+          } catch (error) {
+              console.error("Failed to read service CSV", error);
+              alert(error instanceof ServiceImportError ? error.message : 'Đã xảy ra lỗi khi đọc file CSV.');
+          } finally {
+              e.target.value = '';
+          }
+      };
+      reader.readAsText(file);
+  };
+
+  const handleConfirmImport = async () => {
+      if (!csvImport) return;
+      const toSave = csvImport.plan.rows
+          .filter(row => row.status === 'create' || row.status === 'update')
+          .map(row => row.service!);
+      try {
+          await importServices(toSave, csvImport.plan.newCategories);
+          setCsvImport(null);
+      } catch (error) {
+          console.error("Failed to import services", error);
+          alert('Đã xảy ra lỗi khi lưu dịch vụ.');
+      }
+  };
+
+  const handleExportCsv = () => {
+      downloadCsvFile(servicesToCsv(services, localCategories), 'bang-gia-dich-vu.csv');
+  };
+
   // --- DnD Handlers ---
   const handleDragStart = (e: React.DragEvent<HTMLDivElement | HTMLTableRowElement>, position: number) => {
       dragItem.current = position;
@@ -238,16 +290,41 @@ const ServiceManager: React.FC<ServiceManagerProps> = ({
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
         <div>
             <h2 className="text-xl sm:text-2xl font-bold text-text-main">Quản Lý Dịch Vụ</h2>
-            <p className="text-text-light mt-1 text-sm sm:text-base">Quản lý menu và danh mục dịch vụ.</p>
+            <p className="text-text-light mt-1 text-sm sm:text-base">Quản lý menu, danh mục dịch vụ và thợ.</p>
+        </div>
+        <div className="flex items-center gap-2">
+            {activeTab === 'services' && (
+                <>
+                    <button
+                        onClick={handleExportCsv}
+                        title="Tải bảng giá CSV (dùng làm file mẫu)"
+                        className="flex items-center gap-2 px-3 py-2 bg-surface text-text-main border border-secondary rounded-lg hover:bg-secondary transition-colors font-semibold text-sm sm:text-base"
+                    >
+                        <ArrowDownTrayIcon className="w-5 h-5" />
+                        <span className="hidden sm:inline">Xuất CSV</span>
+                    </button>
+                    <button
+                        onClick={() => csvInputRef.current?.click()}
+                        title="Nhập bảng giá từ CSV"
+                        className="flex items-center gap-2 px-3 py-2 bg-surface text-text-main border border-secondary rounded-lg hover:bg-secondary transition-colors font-semibold text-sm sm:text-base"
+                    >
+                        <CloudArrowUpIcon className="w-5 h-5" />
+                        <span className="hidden sm:inline">Nhập CSV</span>
+                    </button>
+                    <input type="file" ref={csvInputRef} onChange={handleCsvFileChange} accept=".csv,text/csv" className="hidden" />
+                </>
+            )}
+            {activeTab !== 'staff' && (
+                <button
+                    onClick={activeTab === 'services' ? openAddService : openAddCategory}
+                    className="flex items-center gap-2 px-3 py-2 sm:px-4 bg-primary text-white rounded-lg shadow-sm hover:bg-primary-hover transition-colors font-semibold text-sm sm:text-base"
+                >
+                    <PlusIcon className="w-5 h-5" />
+                    <span className="hidden sm:inline">Thêm {activeTab === 'services' ? 'Dịch Vụ' : 'Loại'}</span>
+                    <span className="sm:hidden">Thêm Mới</span>
+                </button>
+            )}
         </div>
-        <button
-            onClick={activeTab === 'services' ? openAddService : openAddCategory}
-            className="flex items-center gap-2 px-3 py-2 sm:px-4 bg-primary text-white rounded-lg shadow-sm hover:bg-primary-hover transition-colors font-semibold text-sm sm:text-base"
-        >
-            <PlusIcon className="w-5 h-5" />
-            <span className="hidden sm:inline">Thêm {activeTab === 'services' ? 'Dịch Vụ' : 'Loại'}</span>
-            <span className="sm:hidden">Thêm Mới</span>
-        </button>
       </div>
 
       {/* Tab Switcher */}
@@ -264,8 +341,19 @@ const ServiceManager: React.FC<ServiceManagerProps> = ({
           >
             Loại Dịch Vụ
           </button>
+          <button
+            onClick={() => setActiveTab('staff')}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-all ${activeTab === 'staff' ? 'bg-white text-primary shadow-sm' : 'text-text-light hover:text-text-main'}`}
+          >
+            Thợ
+          </button>
       </div>
 
+      {/* --- STAFF TAB CONTENT --- */}
+      {activeTab === 'staff' && (
+        <StaffManager staff={staff} addTechnician={addTechnician} updateTechnician={updateTechnician} />
+      )}
+
       {/* --- SERVICES TAB CONTENT --- */}
       {activeTab === 'services' && (
         <div className="space-y-4">
@@ -591,6 +679,16 @@ const ServiceManager: React.FC<ServiceManagerProps> = ({
         </div>
       )}
 
+      {/* CSV Import Preview */}
+      {csvImport && (
+        <ServiceImportModal
+            fileName={csvImport.fileName}
+            plan={csvImport.plan}
+            onConfirm={handleConfirmImport}
+            onClose={() => setCsvImport(null)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {deleteConfirmId && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
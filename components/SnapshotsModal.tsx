@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import type { SnapshotSummary } from '../utils/snapshots';
+import { formatCurrency, formatDateTime } from '../utils/dateUtils';
+import { ClockIcon } from './icons';
+
+interface SnapshotsModalProps {
+  snapshots: SnapshotSummary[];
+  retentionDays: number;
+  onChangeRetentionDays: (days: number) => void;
+  onRestore: (snapshotId: string) => void;
+  onClose: () => void;
+}
+
+const RETENTION_OPTIONS = [3, 7, 14, 30];
+
+const SnapshotsModal: React.FC<SnapshotsModalProps> = ({ snapshots, retentionDays, onChangeRetentionDays, onRestore, onClose }) => {
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+
+  const confirmSnapshot = snapshots.find(s => s.id === confirmId);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-md rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-text-main">Sao Lưu Tự Động</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm font-medium text-text-main">Giữ lại bản sao lưu trong</span>
+            <select
+              value={retentionDays}
+              onChange={e => onChangeRetentionDays(parseInt(e.target.value))}
+              className="px-3 py-2 bg-gray-50 rounded-xl outline-none text-sm font-semibold text-text-main"
+            >
+              {RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} ngày</option>)}
+            </select>
+          </div>
+
+          {snapshots.length > 0 ? (
+            <div className="space-y-3">
+              {snapshots.map(snapshot => (
+                <div key={snapshot.id} className="p-4 bg-gray-50 rounded-2xl border border-transparent hover:border-pink-100 transition-colors">
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="min-w-0">
+                      <p className="font-bold text-text-main flex items-center gap-2">
+                        <ClockIcon className="w-4 h-4 text-primary" />
+                        {formatDateTime(snapshot.createdAt)}
+                      </p>
+                      <p className="text-xs text-text-light mt-1">
+                        {snapshot.counts.bills} hóa đơn · {snapshot.counts.bookings} lịch hẹn · {snapshot.counts.customers} khách · {snapshot.counts.services} dịch vụ
+                      </p>
+                      <p className="text-sm font-semibold text-primary mt-1">Doanh thu: {formatCurrency(snapshot.revenue)}</p>
+                    </div>
+                    <button
+                      onClick={() => setConfirmId(snapshot.id)}
+                      className="px-3 py-2 bg-white rounded-xl shadow-sm text-sm font-semibold text-text-main hover:bg-pink-50 shrink-0"
+                    >
+                      Khôi phục
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-400 italic py-4">Chưa có bản sao lưu tự động nào.</p>
+          )}
+        </div>
+      </div>
+
+      {/* Restore Confirm */}
+      {confirmSnapshot && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[110] p-4" onClick={e => e.stopPropagation()}>
+          <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-floating">
+            <h3 className="text-xl font-bold text-text-main mb-2">Khôi phục bản sao lưu?</h3>
+            <p className="text-text-light mb-6">
+              Toàn bộ dữ liệu hiện tại sẽ được thay bằng dữ liệu lúc {formatDateTime(confirmSnapshot.createdAt)} ({confirmSnapshot.counts.bills} hóa đơn, doanh thu {formatCurrency(confirmSnapshot.revenue)}).
+            </p>
+            <div className="flex justify-end gap-3">
+              <button onClick={() => setConfirmId(null)} className="px-5 py-2.5 bg-gray-100 rounded-2xl font-bold text-text-main">Hủy</button>
+              <button
+                onClick={() => { onRestore(confirmSnapshot.id); setConfirmId(null); }}
+                className="px-5 py-2.5 bg-red-500 text-white rounded-2xl font-bold shadow-lg shadow-red-500/30 hover:bg-red-600"
+              >
+                Khôi phục
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SnapshotsModal;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import type { Technician } from '../types';
+import { PencilIcon, PlusIcon } from './icons';
+import { STAFF_COLORS } from '../hooks/useStaff';
+
+interface StaffManagerProps {
+  staff: Technician[];
+  addTechnician: (technician: Omit<Technician, 'id'>) => void;
+  updateTechnician: (technician: Technician) => void;
+}
+
+const StaffManager: React.FC<StaffManagerProps> = ({ staff, addTechnician, updateTechnician }) => {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editing, setEditing] = useState<Technician | null>(null);
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(STAFF_COLORS[0]);
+
+  const openAdd = () => {
+    setEditing(null);
+    setName('');
+    setColor(STAFF_COLORS[staff.length % STAFF_COLORS.length]);
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (technician: Technician) => {
+    setEditing(technician);
+    setName(technician.name);
+    setColor(technician.color);
+    setIsModalOpen(true);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    const duplicate = staff.find(t => t.id !== editing?.id && t.name.trim().toLowerCase() === trimmed.toLowerCase());
+    if (duplicate) {
+      alert(`Đã có thợ tên "${duplicate.name}".`);
+      return;
+    }
+    if (editing) {
+      updateTechnician({ ...editing, name: trimmed, color });
+    } else {
+      addTechnician({ name: trimmed, color, active: true });
+    }
+    setIsModalOpen(false);
+  };
+
+  const sortedStaff = [...staff].sort((a, b) => Number(b.active) - Number(a.active) || a.name.localeCompare(b.name, 'vi'));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center gap-3">
+        <p className="text-sm text-text-light">Thợ ngừng làm vẫn hiện trên hóa đơn cũ nhưng không chọn được cho hóa đơn mới.</p>
+        <button
+          onClick={openAdd}
+          className="flex items-center gap-2 px-3 py-2 sm:px-4 bg-primary text-white rounded-lg shadow-sm hover:bg-primary-hover transition-colors font-semibold text-sm sm:text-base shrink-0"
+        >
+          <PlusIcon className="w-5 h-5" />
+          <span>Thêm Thợ</span>
+        </button>
+      </div>
+
+      <div className="bg-surface rounded-lg shadow-sm overflow-hidden divide-y divide-secondary">
+        {sortedStaff.length > 0 ? sortedStaff.map(technician => (
+          <div key={technician.id} className={`p-4 flex justify-between items-center ${technician.active ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-3 min-w-0">
+              <span className="w-4 h-4 rounded-full shrink-0" style={{ backgroundColor: technician.color }} />
+              <span className="font-medium text-text-main truncate">{technician.name}</span>
+              {!technician.active && <span className="text-xs px-2 py-0.5 bg-gray-100 text-gray-500 rounded-full font-semibold">Ngừng làm</span>}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <button
+                onClick={() => updateTechnician({ ...technician, active: !technician.active })}
+                className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-secondary text-text-main hover:bg-secondary/80"
+              >
+                {technician.active ? 'Cho nghỉ' : 'Làm lại'}
+              </button>
+              <button onClick={() => openEdit(technician)} className="p-2 text-text-light hover:text-primary transition-colors rounded-full hover:bg-secondary">
+                <PencilIcon className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+        )) : (
+          <div className="p-8 text-center text-text-light">Chưa có thợ nào.</div>
+        )}
+      </div>
+
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[60] p-4">
+          <div className="bg-surface w-full max-w-sm rounded-lg shadow-xl overflow-hidden max-h-[calc(100dvh-5rem)] flex flex-col">
+            <div className="px-6 py-4 border-b border-secondary">
+              <h3 className="text-lg font-bold text-text-main">{editing ? 'Sửa Thông Tin Thợ' : 'Thêm Thợ'}</h3>
+            </div>
+            <form onSubmit={handleSave} className="p-6 space-y-4 overflow-y-auto">
+              <div>
+                <label className="block text-sm font-medium text-text-main mb-1">Tên Thợ</label>
+                <input type="text" value={name} onChange={e => setName(e.target.value)} required autoFocus className="w-full px-3 py-2 bg-secondary rounded-lg focus:ring-2 focus:ring-primary/50 outline-none text-text-main" placeholder="VD: Lan" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text-main mb-2">Màu</label>
+                <div className="flex flex-wrap gap-2">
+                  {STAFF_COLORS.map(option => (
+                    <button
+                      key={option}
+                      type="button"
+                      onClick={() => setColor(option)}
+                      className={`w-8 h-8 rounded-full border-2 ${color === option ? 'border-text-main' : 'border-transparent'}`}
+                      style={{ backgroundColor: option }}
+                      aria-label={option}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="flex justify-end gap-3 pt-2">
+                <button type="button" onClick={() => setIsModalOpen(false)} className="px-4 py-2 bg-secondary text-text-main rounded-lg font-medium hover:bg-secondary/80">Hủy</button>
+                <button type="submit" className="px-4 py-2 bg-primary text-white rounded-lg font-medium hover:bg-primary-hover">Lưu</button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StaffManager;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import type { SyncConfig, InitialSyncMode } from '../utils/sync';
+import type { SyncStatus } from '../hooks/useSync';
+import { formatSpecificDateTime } from '../utils/dateUtils';
+
+interface SyncModalProps {
+  config?: SyncConfig;
+  status: SyncStatus;
+  error: string | null;
+  pendingCount: number;
+  onConnect: (serverUrl: string, token: string, mode: InitialSyncMode) => Promise<string | null>;
+  onDisconnect: () => void;
+  onSyncNow: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  off: 'Chưa bật',
+  idle: 'Đang hoạt động',
+  syncing: 'Đang đồng bộ...',
+  error: 'Lỗi đồng bộ',
+};
+
+const STATUS_COLORS: Record<SyncStatus, string> = {
+  off: 'bg-gray-300',
+  idle: 'bg-emerald-500',
+  syncing: 'bg-blue-500 animate-pulse',
+  error: 'bg-red-500',
+};
+
+const SyncModal: React.FC<SyncModalProps> = ({
+  config, status, error, pendingCount, onConnect, onDisconnect, onSyncNow, onClose
+}) => {
+  const [serverUrl, setServerUrl] = useState(config?.serverUrl || '');
+  const [token, setToken] = useState(config?.token || '');
+  const [mode, setMode] = useState<InitialSyncMode>('merge');
+  const [connectError, setConnectError] = useState<string | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const isEnabled = status !== 'off';
+
+  const handleConnect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!serverUrl.trim()) return;
+    if (mode === 'replace' && !window.confirm('Toàn bộ dữ liệu trên máy này sẽ được thay bằng dữ liệu trên máy chủ. Tiếp tục?')) {
+      return;
+    }
+    setIsConnecting(true);
+    setConnectError(null);
+    setConnectError(await onConnect(serverUrl, token, mode));
+    setIsConnecting(false);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-md rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-text-main">Đồng Bộ Thiết Bị</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex items-center gap-2 text-sm">
+            <span className={`w-2.5 h-2.5 rounded-full ${STATUS_COLORS[status]}`} />
+            <span className="font-semibold text-text-main">{STATUS_LABELS[status]}</span>
+          </div>
+
+          {isEnabled ? (
+            <div className="space-y-3 text-sm">
+              <div className="bg-gray-50 rounded-2xl p-4 space-y-2">
+                <div className="flex justify-between gap-3">
+                  <span className="text-text-light">Máy chủ</span>
+                  <span className="font-semibold text-text-main truncate">{config?.serverUrl}</span>
+                </div>
+                <div className="flex justify-between gap-3">
+                  <span className="text-text-light">Lần đồng bộ cuối</span>
+                  <span className="font-semibold text-text-main">
+                    {config?.lastSyncedAt ? formatSpecificDateTime(config.lastSyncedAt) : 'Chưa có'}
+                  </span>
+                </div>
+                <div className="flex justify-between gap-3">
+                  <span className="text-text-light">Thay đổi chờ gửi</span>
+                  <span className="font-semibold text-text-main">{pendingCount}</span>
+                </div>
+              </div>
+              {error && <p className="text-red-500">{error}</p>}
+              <div className="flex gap-3">
+                <button
+                  onClick={onDisconnect}
+                  className="flex-1 py-3 bg-gray-100 rounded-2xl font-bold text-gray-600 hover:bg-gray-200"
+                >
+                  Tắt đồng bộ
+                </button>
+                <button
+                  onClick={onSyncNow}
+                  disabled={status === 'syncing'}
+                  className="flex-1 py-3 bg-primary text-white rounded-2xl font-bold hover:bg-primary-hover shadow-lg shadow-primary/30 disabled:bg-gray-300 disabled:shadow-none"
+                >
+                  Đồng bộ ngay
+                </button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleConnect} className="space-y-4">
+              <p className="text-sm text-text-light">
+                Chạy máy chủ đồng bộ trên một máy tính trong tiệm, sau đó nhập địa chỉ của máy đó trên mọi thiết bị.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-text-light mb-1">Địa chỉ máy chủ</label>
+                <input
+                  type="url"
+                  value={serverUrl}
+                  onChange={e => setServerUrl(e.target.value)}
+                  placeholder="http://192.168.1.10:8787"
+                  className="w-full px-4 py-3 border border-gray-100 rounded-2xl focus:outline-none focus:ring-2 focus:ring-primary/50 bg-gray-50 text-text-main placeholder-gray-400"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-text-light mb-1">Mã truy cập (nếu có)</label>
+                <input
+                  type="password"
+                  value={token}
+                  onChange={e => setToken(e.target.value)}
+                  className="w-full px-4 py-3 border border-gray-100 rounded-2xl focus:outline-none focus:ring-2 focus:ring-primary/50 bg-gray-50 text-text-main"
+                />
+              </div>
+              <div className="space-y-2 text-sm">
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1 accent-primary" />
+                  <span>Gộp dữ liệu trên máy này với máy chủ</span>
+                </label>
+                <label className="flex items-start gap-2 cursor-pointer">
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1 accent-primary" />
+                  <span>Thay dữ liệu trên máy này bằng dữ liệu máy chủ</span>
+                </label>
+              </div>
+              {connectError && <p className="text-sm text-red-500">{connectError}</p>}
+              <button
+                type="submit"
+                disabled={isConnecting}
+                className="w-full py-3 bg-primary text-white rounded-2xl font-bold hover:bg-primary-hover shadow-lg shadow-primary/30 disabled:bg-gray-300 disabled:shadow-none"
+              >
+                {isConnecting ? 'Đang kết nối...' : 'Bật đồng bộ'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncModal;
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import type { Bill, Booking, Customer } from '../types';
+import type { TrashEntry } from '../utils/trash';
+import { formatCurrency, formatDateTime } from '../utils/dateUtils';
+import { TrashIcon } from './icons';
+
+interface TrashModalProps {
+  entries: TrashEntry[];
+  retentionDays: number;
+  onChangeRetentionDays: (days: number) => void;
+  onRestoreGroup: (groupId: string) => void;
+  onPurgeGroup: (groupId: string) => void;
+  onEmptyTrash: () => void;
+  onClose: () => void;
+}
+
+interface TrashGroup {
+  id: string;
+  deletedAt: string;
+  entries: TrashEntry[];
+}
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+const describeGroup = (group: TrashGroup): { title: string; detail: string } => {
+  const bills = group.entries.filter(e => e.entity === 'bills').map(e => e.record as Bill);
+  const bookings = group.entries.filter(e => e.entity === 'bookings').map(e => e.record as Booking);
+  const customer = group.entries.find(e => e.entity === 'customers')?.record as Customer | undefined;
+
+  if (customer || bills.length + bookings.length > 1) {
+    const name = customer?.name || bills[0]?.customerName || bookings[0]?.customerName || '';
+    return {
+      title: `Khách hàng: ${name}`,
+      detail: `${customer ? 'Hồ sơ khách hàng, ' : ''}${bills.length} hóa đơn, ${bookings.length} lịch hẹn`,
+    };
+  }
+  if (bills.length === 1) {
+    return {
+      title: `Hóa đơn: ${bills[0].customerName}`,
+      detail: `${formatDateTime(bills[0].date)} · ${formatCurrency(bills[0].total)}`,
+    };
+  }
+  return {
+    title: `Lịch hẹn: ${bookings[0]?.customerName || ''}`,
+    detail: bookings[0] ? formatDateTime(bookings[0].date) : '',
+  };
+};
+
+const TrashModal: React.FC<TrashModalProps> = ({
+  entries, retentionDays, onChangeRetentionDays, onRestoreGroup, onPurgeGroup, onEmptyTrash, onClose
+}) => {
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const groups = useMemo(() => {
+    const byId = new Map<string, TrashGroup>();
+    entries.forEach(entry => {
+      const group = byId.get(entry.groupId) || { id: entry.groupId, deletedAt: entry.deletedAt, entries: [] };
+      group.entries.push(entry);
+      byId.set(entry.groupId, group);
+    });
+    return Array.from(byId.values()).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  }, [entries]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[100] p-4" onClick={onClose}>
+      <div className="bg-white w-full max-w-md rounded-3xl shadow-floating overflow-hidden flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center">
+          <h3 className="text-xl font-bold text-text-main">Thùng Rác</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">&times;</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-sm font-medium text-text-main">Tự động xóa vĩnh viễn sau</span>
+            <select
+              value={retentionDays}
+              onChange={e => onChangeRetentionDays(parseInt(e.target.value))}
+              className="px-3 py-2 bg-gray-50 rounded-xl outline-none text-sm font-semibold text-text-main"
+            >
+              {RETENTION_OPTIONS.map(days => <option key={days} value={days}>{days} ngày</option>)}
+            </select>
+          </div>
+
+          {groups.length > 0 ? (
+            <div className="space-y-3">
+              {groups.map(group => {
+                const { title, detail } = describeGroup(group);
+                return (
+                  <div key={group.id} className="p-4 bg-gray-50 rounded-2xl">
+                    <p className="font-bold text-text-main truncate">{title}</p>
+                    <p className="text-xs text-text-light mt-1">{detail}</p>
+                    <p className="text-xs text-gray-400 mt-1">Đã xóa lúc {formatDateTime(group.deletedAt)}</p>
+                    <div className="flex justify-end gap-2 mt-3">
+                      <button
+                        onClick={() => onPurgeGroup(group.id)}
+                        className="px-3 py-2 rounded-xl text-sm font-semibold text-red-500 hover:bg-red-50"
+                      >
+                        Xóa vĩnh viễn
+                      </button>
+                      <button
+                        onClick={() => onRestoreGroup(group.id)}
+                        className="px-3 py-2 bg-white rounded-xl shadow-sm text-sm font-semibold text-text-main hover:bg-pink-50"
+                      >
+                        Khôi phục
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-center text-gray-400 italic py-4">Thùng rác trống.</p>
+          )}
+        </div>
+
+        {groups.length > 0 && (
+          <div className="p-6 border-t border-gray-100">
+            <button
+              onClick={() => setConfirmEmpty(true)}
+              className="w-full py-3 bg-red-50 text-red-600 rounded-2xl font-bold hover:bg-red-100 flex items-center justify-center gap-2"
+            >
+              <TrashIcon className="w-5 h-5" />
+              Dọn sạch thùng rác
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Empty Trash Confirm */}
+      {confirmEmpty && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[110] p-4" onClick={e => e.stopPropagation()}>
+          <div className="bg-white w-full max-w-sm rounded-3xl p-6 shadow-floating">
+            <h3 className="text-xl font-bold text-text-main mb-2">Dọn sạch thùng rác?</h3>
+            <p className="text-text-light mb-6">Tất cả dữ liệu trong thùng rác sẽ bị xóa vĩnh viễn. Hành động này không thể hoàn tác.</p>
+            <div className="flex justify-end gap-3">
+              <button onClick={() => setConfirmEmpty(false)} className="px-5 py-2.5 bg-gray-100 rounded-2xl font-bold text-text-main">Hủy</button>
+              <button
+                onClick={() => { onEmptyTrash(); setConfirmEmpty(false); }}
+                className="px-5 py-2.5 bg-red-500 text-white rounded-2xl font-bold shadow-lg shadow-red-500/30 hover:bg-red-600"
+              >
+                Xóa tất cả
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrashModal;
@@ -0,0 +1,50 @@
+import React, { useMemo } from 'react';
+import type { BankAccount } from '../types';
+import { encodeQrCode } from '../utils/qrcode';
+import { buildVietQrPayload } from '../utils/vietqr';
+
+interface VietQrCodeProps {
+  account: BankAccount;
+  amount?: number;
+  memo?: string;
+  className?: string;
+}
+
+const MODULE_PIXELS = 8;
+const QUIET_ZONE_MODULES = 4;
+
+// Drawn to a PNG data URL rather than a live canvas so the image survives both the print window
+// (which copies innerHTML) and the html2canvas capture of the receipt.
+const renderQrDataUrl = (modules: boolean[][]): string => {
+  const size = (modules.length + QUIET_ZONE_MODULES * 2) * MODULE_PIXELS;
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) return '';
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, size, size);
+  context.fillStyle = '#000000';
+  modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) context.fillRect((x + QUIET_ZONE_MODULES) * MODULE_PIXELS, (y + QUIET_ZONE_MODULES) * MODULE_PIXELS, MODULE_PIXELS, MODULE_PIXELS);
+    });
+  });
+  return canvas.toDataURL('image/png');
+};
+
+const VietQrCode: React.FC<VietQrCodeProps> = ({ account, amount, memo, className = 'w-40 h-40' }) => {
+  const dataUrl = useMemo(() => {
+    try {
+      return renderQrDataUrl(encodeQrCode(buildVietQrPayload(account, amount, memo)));
+    } catch (error) {
+      console.error("Error rendering VietQR code", error);
+      return '';
+    }
+  }, [account.bin, account.accountNumber, amount, memo]);
+
+  if (!dataUrl) return null;
+  return <img src={dataUrl} alt="VietQR" className={className} style={{ imageRendering: 'pixelated' }} />;
+};
+
+export default VietQrCode;
@@ -0,0 +1,34 @@
+import { useState, useEffect } from 'react';
+import { listAuditEntries } from '../utils/audit';
+import { subscribeToChanges } from '../utils/broadcast';
+import type { AuditEntry } from '../utils/audit';
+
+const useAuditLog = (recordId: string) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      listAuditEntries(recordId)
+        .then(stored => {
+          if (!cancelled) setEntries(stored);
+        })
+        .catch(error => console.error("Error reading audit log", error))
+        .finally(() => {
+          if (!cancelled) setIsLoading(false);
+        });
+    };
+    setIsLoading(true);
+    load();
+    const unsubscribe = subscribeToChanges('auditLog', load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [recordId]);
+
+  return { entries, isLoading };
+};
+
+export default useAuditLog;
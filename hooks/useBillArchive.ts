@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Bill } from '../types';
+import { META_KEYS, reportStorageError } from '../utils/db';
+import { subscribeToChanges } from '../utils/broadcast';
+import { getArchiveSummary, archiveBillsBefore, unarchiveAllBills, updateArchivedBills, trashArchivedBills, migrateArchive } from '../utils/archive';
+import type { ArchiveSummary } from '../utils/archive';
+
+const useBillArchive = () => {
+  const [archiveSummary, setArchiveSummary] = useState<ArchiveSummary | null>(null);
+  const [isArchiving, setIsArchiving] = useState(false);
+
+  const refreshArchive = useCallback(() => {
+    getArchiveSummary()
+      .then(summary => setArchiveSummary(summary || null))
+      .catch(error => console.error("Error reading bill archive", error));
+  }, []);
+
+  useEffect(() => {
+    // Chunks from before an app update are upgraded once; the summary is re-read when that's done
+    migrateArchive().catch(error => console.error("Error upgrading bill archive", error));
+    refreshArchive();
+    return subscribeToChanges(META_KEYS.archiveSummary, refreshArchive);
+  }, [refreshArchive]);
+
+  // Both resolve to the number of bills moved, or null if the write failed.
+  const archiveBills = useCallback(async (cutoff: string): Promise<number | null> => {
+    setIsArchiving(true);
+    try {
+      return await archiveBillsBefore(cutoff);
+    } catch (error) {
+      reportStorageError("Error archiving bills", error);
+      return null;
+    } finally {
+      setIsArchiving(false);
+    }
+  }, []);
+
+  const unarchiveBills = useCallback(async (): Promise<number | null> => {
+    setIsArchiving(true);
+    try {
+      return await unarchiveAllBills();
+    } catch (error) {
+      reportStorageError("Error restoring archived bills", error);
+      return null;
+    } finally {
+      setIsArchiving(false);
+    }
+  }, []);
+
+  // Points archived bills at another profile; see updateArchivedBills
+  const relinkArchivedBills = useCallback((update: (bill: Bill) => Bill | null) =>
+    updateArchivedBills(update).catch(error => {
+      reportStorageError("Error updating archived bills", error);
+      return 0;
+    }), []);
+
+  // Deletes archived bills into the given trash group; see trashArchivedBills
+  const deleteArchivedBills = useCallback((matches: (bill: Bill) => boolean, trashGroupId?: string) =>
+    trashArchivedBills(matches, trashGroupId).catch(error => {
+      reportStorageError("Error deleting archived bills", error);
+      return 0;
+    }), []);
+
+  return { archiveSummary, isArchiving, archiveBills, unarchiveBills, relinkArchivedBills, deleteArchivedBills };
+};
+
+export default useBillArchive;
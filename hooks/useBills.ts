@@ -1,27 +1,25 @@
-
 import { useState, useEffect, useCallback } from 'react';
 import type { Bill } from '../types';
+import { billsRepository, reportStorageError } from '../utils/db';
+import { moveToTrash } from '../utils/trash';
+import { subscribeToChanges } from '../utils/broadcast';
+import { saveWithAudit, saveManyWithAudit, replaceAllWithAudit } from '../utils/audit';
 
-const BIllS_STORAGE_KEY = 'nailSpaBills';
+const sortByDateDesc = (list: Bill[]) =>
+  [...list].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
 const useBills = () => {
-  const [bills, setBills] = useState<Bill[]>(() => {
-    try {
-      const storedBills = localStorage.getItem(BIllS_STORAGE_KEY);
-      return storedBills ? JSON.parse(storedBills) : [];
-    } catch (error) {
-      console.error("Error reading bills from localStorage", error);
-      return [];
-    }
-  });
+  const [bills, setBills] = useState<Bill[]>([]);
 
   useEffect(() => {
-    try {
-      localStorage.setItem(BIllS_STORAGE_KEY, JSON.stringify(bills));
-    } catch (error) {
-      console.error("Error saving bills to localStorage", error);
-    }
-  }, [bills]);
+    let cancelled = false;
+    billsRepository.getAll()
+      .then(stored => {
+        if (!cancelled) setBills(sortByDateDesc(stored));
+      })
+      .catch(error => console.error("Error reading bills from IndexedDB", error));
+    return () => { cancelled = true; };
+  }, []);
 
   const addBill = useCallback((bill: Omit<Bill, 'id'>) => {
     const newBill: Bill = {
@@ -29,23 +27,44 @@ const useBills = () => {
       id: new Date().toISOString() + Math.random().toString(36).substr(2, 9),
     };
     setBills(prevBills => [newBill, ...prevBills]);
+    saveWithAudit('bills', newBill).catch(error => reportStorageError("Error saving bill", error));
   }, []);
 
   const updateBill = useCallback((updatedBill: Bill) => {
     setBills(prevBills =>
       prevBills.map(bill => (bill.id === updatedBill.id ? updatedBill : bill))
     );
+    saveWithAudit('bills', updatedBill).catch(error => reportStorageError("Error saving bill", error));
+  }, []);
+
+  // Saves several edited bills in one transaction; resolves once they are written.
+  const updateBills = useCallback((updatedBills: Bill[]) => {
+    const byId = new Map(updatedBills.map(bill => [bill.id, bill]));
+    setBills(prevBills => prevBills.map(bill => byId.get(bill.id) || bill));
+    return saveManyWithAudit('bills', updatedBills);
   }, []);
 
-  const deleteBill = useCallback((billId: string) => {
+  // Soft delete: the bill goes to the trash and can be restored from there
+  const deleteBill = useCallback((billId: string, trashGroupId?: string) => {
     setBills(prevBills => prevBills.filter(bill => bill.id !== billId));
+    moveToTrash('bills', [billId], trashGroupId).catch(error => reportStorageError("Error deleting bill", error));
   }, []);
 
   const restoreBills = useCallback((billsToRestore: Bill[]) => {
-    setBills(billsToRestore);
+    setBills(sortByDateDesc(billsToRestore));
+    return replaceAllWithAudit('bills', billsToRestore);
   }, []);
 
-  return { bills, addBill, updateBill, deleteBill, restoreBills };
+  // Re-reads the store after changes made outside this hook (e.g. restoring from the trash)
+  const reloadBills = useCallback(() =>
+    billsRepository.getAll().then(stored => setBills(sortByDateDesc(stored))), []);
+
+  // Another tab wrote bills: the store has every write from both tabs, so re-read it
+  useEffect(() => subscribeToChanges('bills', () => {
+    reloadBills().catch(error => console.error("Error reloading bills", error));
+  }), [reloadBills]);
+
+  return { bills, addBill, updateBill, updateBills, deleteBill, restoreBills, reloadBills };
 };
 
-export default useBills;
\ No newline at end of file
+export default useBills;
@@ -1,27 +1,22 @@
-
 import { useState, useEffect, useCallback } from 'react';
 import type { Booking } from '../types';
-
-const BOOKINGS_STORAGE_KEY = 'nailSpaBookings';
+import { bookingsRepository, reportStorageError } from '../utils/db';
+import { moveToTrash } from '../utils/trash';
+import { subscribeToChanges } from '../utils/broadcast';
+import { saveWithAudit, saveManyWithAudit, removeWithAudit, replaceAllWithAudit } from '../utils/audit';
 
 const useBookings = () => {
-  const [bookings, setBookings] = useState<Booking[]>(() => {
-    try {
-      const stored = localStorage.getItem(BOOKINGS_STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
-    } catch (error) {
-      console.error("Error reading bookings from localStorage", error);
-      return [];
-    }
-  });
+  const [bookings, setBookings] = useState<Booking[]>([]);
 
   useEffect(() => {
-    try {
-      localStorage.setItem(BOOKINGS_STORAGE_KEY, JSON.stringify(bookings));
-    } catch (error) {
-      console.error("Error saving bookings to localStorage", error);
-    }
-  }, [bookings]);
+    let cancelled = false;
+    bookingsRepository.getAll()
+      .then(stored => {
+        if (!cancelled) setBookings(stored);
+      })
+      .catch(error => console.error("Error reading bookings from IndexedDB", error));
+    return () => { cancelled = true; };
+  }, []);
 
   const addBooking = useCallback((booking: Omit<Booking, 'id'>) => {
     const newBooking: Booking = {
@@ -30,19 +25,48 @@ const useBookings = () => {
       createdAt: new Date().toISOString(), // Capture creation time
     };
     setBookings(prev => [newBooking, ...prev]);
+    saveWithAudit('bookings', newBooking).catch(error => reportStorageError("Error saving booking", error));
   }, []);
 
   const updateBooking = useCallback((updatedBooking: Booking) => {
     setBookings(prev =>
       prev.map(b => (b.id === updatedBooking.id ? updatedBooking : b))
     );
+    saveWithAudit('bookings', updatedBooking).catch(error => reportStorageError("Error saving booking", error));
+  }, []);
+
+  // Saves several edited bookings in one transaction; resolves once they are written.
+  const updateBookings = useCallback((updatedBookings: Booking[]) => {
+    const byId = new Map(updatedBookings.map(booking => [booking.id, booking]));
+    setBookings(prev => prev.map(b => byId.get(b.id) || b));
+    return saveManyWithAudit('bookings', updatedBookings);
+  }, []);
+
+  // Soft delete: the booking goes to the trash and can be restored from there
+  const deleteBooking = useCallback((id: string, trashGroupId?: string) => {
+    setBookings(prev => prev.filter(b => b.id !== id));
+    moveToTrash('bookings', [id], trashGroupId).catch(error => reportStorageError("Error deleting booking", error));
   }, []);
 
-  const deleteBooking = useCallback((id: string) => {
+  // Permanent removal, for bookings that have been turned into bills
+  const removeBooking = useCallback((id: string) => {
     setBookings(prev => prev.filter(b => b.id !== id));
+    removeWithAudit('bookings', id).catch(error => reportStorageError("Error deleting booking", error));
+  }, []);
+
+  const restoreBookings = useCallback((bookingsToRestore: Booking[]) => {
+    setBookings(bookingsToRestore);
+    return replaceAllWithAudit('bookings', bookingsToRestore);
   }, []);
 
-  return { bookings, addBooking, updateBooking, deleteBooking };
+  const reloadBookings = useCallback(() =>
+    bookingsRepository.getAll().then(setBookings), []);
+
+  useEffect(() => subscribeToChanges('bookings', () => {
+    reloadBookings().catch(error => console.error("Error reloading bookings", error));
+  }), [reloadBookings]);
+
+  return { bookings, addBooking, updateBooking, updateBookings, deleteBooking, removeBooking, restoreBookings, reloadBookings };
 };
 
 export default useBookings;
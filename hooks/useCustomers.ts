@@ -1,47 +1,86 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import type { Customer } from '../types';
+import { customersRepository, reportStorageError } from '../utils/db';
+import { moveToTrash } from '../utils/trash';
+import { subscribeToChanges } from '../utils/broadcast';
+import { canonicalPhone } from '../utils/phone';
 
-const CUSTOMERS_STORAGE_KEY = 'nailSpaCustomers';
+// Phone numbers are stored in one canonical form so the same number always compares equal.
+const withCanonicalPhone = <T extends { phone?: string }>(customer: T): T => ({ ...customer, phone: canonicalPhone(customer.phone) });
 
 const useCustomers = () => {
-  const [customers, setCustomers] = useState<Customer[]>(() => {
-    try {
-      const stored = localStorage.getItem(CUSTOMERS_STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
-    } catch (error) {
-      console.error("Error reading customers from localStorage", error);
-      return [];
-    }
-  });
+  const [customers, setCustomers] = useState<Customer[]>([]);
 
   useEffect(() => {
-    try {
-      localStorage.setItem(CUSTOMERS_STORAGE_KEY, JSON.stringify(customers));
-    } catch (error) {
-      console.error("Error saving customers to localStorage", error);
-    }
-  }, [customers]);
+    let cancelled = false;
+    customersRepository.getAll()
+      .then(stored => {
+        if (!cancelled) setCustomers(stored);
+      })
+      .catch(error => console.error("Error reading customers from IndexedDB", error));
+    return () => { cancelled = true; };
+  }, []);
 
   const addCustomer = useCallback((customerData: Omit<Customer, 'id'>) => {
     const newCustomer: Customer = {
-      ...customerData,
+      ...withCanonicalPhone(customerData),
       id: 'cust-' + Date.now() + Math.random().toString(36).substr(2, 9),
     };
     setCustomers(prev => [...prev, newCustomer]);
+    customersRepository.put(newCustomer).catch(error => reportStorageError("Error saving customer", error));
   }, []);
 
-  const updateCustomer = useCallback((updatedCustomer: Customer) => {
+  const updateCustomer = useCallback((customer: Customer) => {
+    const updatedCustomer = withCanonicalPhone(customer);
     setCustomers(prev =>
       prev.map(c => (c.id === updatedCustomer.id ? updatedCustomer : c))
     );
+    customersRepository.put(updatedCustomer).catch(error => reportStorageError("Error saving customer", error));
+  }, []);
+
+  // Saves a reviewed contact import: new customers are added, merged duplicates replaced by id.
+  const importCustomers = useCallback((newCustomers: Omit<Customer, 'id'>[], mergedCustomers: Customer[]) => {
+    const created = newCustomers.map((customerData, index): Customer => ({
+      ...withCanonicalPhone(customerData),
+      id: 'cust-' + Date.now() + index + Math.random().toString(36).substr(2, 9),
+    }));
+    const merged = mergedCustomers.map(withCanonicalPhone);
+    const mergedById = new Map(merged.map(customer => [customer.id, customer]));
+    setCustomers(prev => [...prev.map(c => mergedById.get(c.id) || c), ...created]);
+    return customersRepository.putMany([...merged, ...created]);
+  }, []);
+
+  // Saves the surviving profile of a merge (creating it if the survivor was only a name on bills)
+  // and moves the other profiles to the trash together. Resolves to the saved survivor.
+  const mergeCustomers = useCallback(async (survivor: Omit<Customer, 'id'> & { id?: string }, duplicateIds: string[]) => {
+    const saved: Customer = { ...withCanonicalPhone(survivor), id: survivor.id || 'cust-' + Date.now() + Math.random().toString(36).substr(2, 9) };
+    const removed = new Set(duplicateIds.filter(id => id !== saved.id));
+    setCustomers(prev => [...prev.filter(c => c.id !== saved.id && !removed.has(c.id)), saved]);
+    await customersRepository.put(saved);
+    if (removed.size > 0) await moveToTrash('customers', Array.from(removed));
+    return saved;
   }, []);
 
-  const deleteCustomer = useCallback((id: string) => {
+  // Soft delete: the customer goes to the trash and can be restored from there
+  const deleteCustomer = useCallback((id: string, trashGroupId?: string) => {
     setCustomers(prev => prev.filter(c => c.id !== id));
+    moveToTrash('customers', [id], trashGroupId).catch(error => reportStorageError("Error deleting customer", error));
   }, []);
 
-  return { customers, addCustomer, updateCustomer, deleteCustomer };
+  const restoreCustomers = useCallback((customersToRestore: Customer[]) => {
+    setCustomers(customersToRestore);
+    return customersRepository.replaceAll(customersToRestore);
+  }, []);
+
+  const reloadCustomers = useCallback(() =>
+    customersRepository.getAll().then(setCustomers), []);
+
+  useEffect(() => subscribeToChanges('customers', () => {
+    reloadCustomers().catch(error => console.error("Error reloading customers", error));
+  }), [reloadCustomers]);
+
+  return { customers, addCustomer, updateCustomer, importCustomers, mergeCustomers, deleteCustomer, restoreCustomers, reloadCustomers };
 };
 
 export default useCustomers;
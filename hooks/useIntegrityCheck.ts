@@ -0,0 +1,38 @@
+import { useState, useCallback } from 'react';
+import { scanIntegrity, repairIntegrity } from '../utils/integrity';
+import type { IntegrityCheck, IntegrityReport } from '../utils/integrity';
+import { reportStorageError } from '../utils/db';
+
+const useIntegrityCheck = () => {
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [repairingCheck, setRepairingCheck] = useState<IntegrityCheck | null>(null);
+
+  const runScan = useCallback(async () => {
+    setIsScanning(true);
+    try {
+      setReport(await scanIntegrity());
+    } catch (error) {
+      console.error("Integrity scan failed", error);
+    } finally {
+      setIsScanning(false);
+    }
+  }, []);
+
+  // Repairs one class of problem, then scans again so the counts reflect what is left.
+  const repair = useCallback(async (check: IntegrityCheck) => {
+    setRepairingCheck(check);
+    try {
+      await repairIntegrity(check);
+    } catch (error) {
+      reportStorageError("Integrity repair failed", error);
+    } finally {
+      setRepairingCheck(null);
+    }
+    await runScan();
+  }, [runScan]);
+
+  return { report, isScanning, repairingCheck, runScan, repair };
+};
+
+export default useIntegrityCheck;
@@ -1,9 +1,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import type { PredefinedService, ServiceCategory } from '../types';
-
-const SERVICES_STORAGE_KEY = 'nailSpaServices';
-const CATEGORIES_STORAGE_KEY = 'nailSpaCategories';
+import { servicesRepository, getMeta, setMeta, META_KEYS, reportStorageError } from '../utils/db';
+import { subscribeToChanges } from '../utils/broadcast';
 
 const generateId = () => new Date().toISOString() + Math.random().toString(36).substr(2, 9);
 
@@ -51,55 +50,80 @@ const initialServices: Omit<PredefinedService, 'id'>[] = [
   { name: 'Design - Vẽ hoạt hình (1 ngón)', price: 10000, priceType: 'fixed', allowQuantity: true, categoryId: 'cat-design' },
 ];
 
-const useServices = () => {
-  // --- Categories State ---
-  const [categories, setCategories] = useState<ServiceCategory[]>(() => {
-      try {
-          const stored = localStorage.getItem(CATEGORIES_STORAGE_KEY);
-          return stored ? JSON.parse(stored) : initialCategories;
-      } catch (error) {
-          return initialCategories;
-      }
-  });
+// Seeds the default menu the very first time the app runs. Memoized so that
+// StrictMode's double-mounted effects can't seed twice.
+let seedingPromise: Promise<void> | null = null;
 
-  // --- Services State ---
-  const [services, setServices] = useState<PredefinedService[]>(() => {
-    try {
-      const storedServices = localStorage.getItem(SERVICES_STORAGE_KEY);
-      if (storedServices) {
-        return JSON.parse(storedServices);
-      }
-      
-      // If first time, map initial services with generated IDs
+const ensureInitialServices = () => {
+  if (!seedingPromise) {
+    seedingPromise = (async () => {
+      const initialized = await getMeta<boolean>(META_KEYS.servicesInitialized);
+      if (initialized) return;
       const servicesWithIds = initialServices.map(service => ({
         ...service,
         id: generateId(),
       }));
-      localStorage.setItem(SERVICES_STORAGE_KEY, JSON.stringify(servicesWithIds));
-      return servicesWithIds;
+      await servicesRepository.putMany(servicesWithIds);
+      if (!(await getMeta<ServiceCategory[]>(META_KEYS.categories))) {
+        await setMeta(META_KEYS.categories, initialCategories);
+      }
+      await setMeta(META_KEYS.servicesInitialized, true);
+    })();
+    seedingPromise.catch(() => { seedingPromise = null; });
+  }
+  return seedingPromise;
+};
 
-    } catch (error) {
-      console.error("Error reading services from localStorage", error);
-      return [];
-    }
-  });
+const useServices = () => {
+  // --- Categories State ---
+  const [categories, setCategories] = useState<ServiceCategory[]>([]);
 
-  // --- Effects for Saving ---
+  // --- Services State ---
+  const [services, setServices] = useState<PredefinedService[]>([]);
+
+  // --- Initial Load ---
   useEffect(() => {
-    try {
-        localStorage.setItem(CATEGORIES_STORAGE_KEY, JSON.stringify(categories));
-    } catch (error) {
-        console.error("Error saving categories", error);
-    }
-  }, [categories]);
+    let cancelled = false;
+    const load = async () => {
+      await ensureInitialServices();
+      const [storedCategories, storedServices] = await Promise.all([
+        getMeta<ServiceCategory[]>(META_KEYS.categories),
+        servicesRepository.getAll(),
+      ]);
+      if (cancelled) return;
+      setCategories(storedCategories || initialCategories);
+      setServices(storedServices);
+    };
+    load().catch(error => console.error("Error reading services from IndexedDB", error));
+    return () => { cancelled = true; };
+  }, []);
 
+  // --- Changes From Other Tabs ---
   useEffect(() => {
-    try {
-        localStorage.setItem(SERVICES_STORAGE_KEY, JSON.stringify(services));
-    } catch (error) {
-        console.error("Error saving services", error);
-    }
-  }, [services]);
+    const unsubscribeServices = subscribeToChanges('services', () => {
+      servicesRepository.getAll()
+        .then(setServices)
+        .catch(error => console.error("Error reloading services", error));
+    });
+    const unsubscribeCategories = subscribeToChanges(META_KEYS.categories, () => {
+      getMeta<ServiceCategory[]>(META_KEYS.categories)
+        .then(stored => {
+          if (stored) setCategories(stored);
+        })
+        .catch(error => console.error("Error reloading categories", error));
+    });
+    return () => {
+      unsubscribeServices();
+      unsubscribeCategories();
+    };
+  }, []);
+
+  // Categories are small and ordered, so they are stored as a single list. Only the user's own
+  // edits save it: a save on load would queue a sync change and overwrite newer edits elsewhere.
+  const saveCategories = useCallback((next: ServiceCategory[]) => {
+    setCategories(next);
+    return setMeta(META_KEYS.categories, next).catch(error => reportStorageError("Error saving categories", error));
+  }, []);
 
   // --- Service Actions ---
   const addService = useCallback((service: Omit<PredefinedService, 'id'>) => {
@@ -108,52 +132,73 @@ const useServices = () => {
       id: generateId(),
     };
     setServices(prevServices => [newService, ...prevServices]);
+    servicesRepository.put(newService).catch(error => reportStorageError("Error saving service", error));
   }, []);
 
   const updateService = useCallback((updatedService: PredefinedService) => {
     setServices(prevServices =>
       prevServices.map(service => (service.id === updatedService.id ? updatedService : service))
     );
+    servicesRepository.put(updatedService).catch(error => reportStorageError("Error saving service", error));
   }, []);
 
   const deleteService = useCallback((serviceId: string) => {
     setServices(prevServices => prevServices.filter(service => service.id !== serviceId));
+    servicesRepository.remove(serviceId).catch(error => reportStorageError("Error deleting service", error));
   }, []);
   
   const restoreServices = useCallback((servicesToRestore: PredefinedService[]) => {
     setServices(servicesToRestore);
+    return servicesRepository.replaceAll(servicesToRestore);
   }, []);
 
+  // Saves a reviewed CSV import: new categories are appended, services are created or replaced by id.
+  const importServices = useCallback((importedServices: PredefinedService[], newCategories: ServiceCategory[]) => {
+    const writes: Promise<unknown>[] = [];
+    if (newCategories.length > 0) {
+      writes.push(saveCategories([...categories, ...newCategories]));
+    }
+    const importedById = new Map(importedServices.map(service => [service.id, service]));
+    setServices(prevServices => [
+      ...importedServices.filter(service => !prevServices.some(existing => existing.id === service.id)),
+      ...prevServices.map(service => importedById.get(service.id) || service),
+    ]);
+    writes.push(servicesRepository.putMany(importedServices));
+    return Promise.all(writes).then(() => undefined);
+  }, [categories, saveCategories]);
+
   // --- Category Actions ---
   const addCategory = useCallback((categoryName: string) => {
       const newCategory: ServiceCategory = {
           id: generateId(),
           name: categoryName
       };
-      setCategories(prev => [...prev, newCategory]);
-  }, []);
+      saveCategories([...categories, newCategory]);
+  }, [categories, saveCategories]);
 
   const updateCategory = useCallback((updatedCategory: ServiceCategory) => {
-      setCategories(prev => prev.map(c => c.id === updatedCategory.id ? updatedCategory : c));
-  }, []);
+      saveCategories(categories.map(c => c.id === updatedCategory.id ? updatedCategory : c));
+  }, [categories, saveCategories]);
 
   const deleteCategory = useCallback((categoryId: string) => {
-      setCategories(prev => prev.filter(c => c.id !== categoryId));
+      saveCategories(categories.filter(c => c.id !== categoryId));
       // Optional: Decide what to do with services in this category. 
-      // Current behavior: They remain but categoryId points to nothing.
-  }, []);
+      // Current behavior: They remain but categoryId points to nothing
+      // ("Kiểm tra dữ liệu" can move them to "Khác").
+  }, [categories, saveCategories]);
   
   const reorderCategories = useCallback((newCategories: ServiceCategory[]) => {
-      setCategories(newCategories);
-  }, []);
+      saveCategories(newCategories);
+  }, [saveCategories]);
 
   const restoreCategories = useCallback((categoriesToRestore: ServiceCategory[]) => {
       setCategories(categoriesToRestore);
+      return setMeta(META_KEYS.categories, categoriesToRestore);
   }, []);
 
 
   return { 
-      services, addService, updateService, deleteService, restoreServices,
+      services, addService, updateService, deleteService, restoreServices, importServices,
       categories, addCategory, updateCategory, deleteCategory, restoreCategories, reorderCategories
   };
 };
@@ -1,38 +1,64 @@
 
 import { useState, useEffect } from 'react';
+import type { BankAccount, CommissionSettings, ShopSettings } from '../types';
+import { DEFAULT_COMMISSION_SETTINGS } from '../utils/payroll';
+import { getMeta, updateMeta, META_KEYS, reportStorageError } from '../utils/db';
+import { subscribeToChanges } from '../utils/broadcast';
 
-const SHOP_SETTINGS_KEY = 'nailSpaShopSettings';
+const DEFAULT_SETTINGS: ShopSettings = { shopName: 'Nail Spa', billTheme: 'default' };
+
+// Merges a partial change into the stored settings object in one transaction.
+const saveShopSettings = (patch: Partial<ShopSettings>) =>
+  updateMeta<ShopSettings>(META_KEYS.shopSettings, current => ({ ...DEFAULT_SETTINGS, ...current, ...patch }));
 
 export const useShopSettings = () => {
-  const [shopName, setShopName] = useState<string>(() => {
-    try {
-      const stored = localStorage.getItem(SHOP_SETTINGS_KEY);
-      return stored ? JSON.parse(stored).shopName || 'Nail Spa' : 'Nail Spa';
-    } catch {
-      return 'Nail Spa';
-    }
-  });
-
-  const [billTheme, setBillTheme] = useState<string>(() => {
-    try {
-      const stored = localStorage.getItem(SHOP_SETTINGS_KEY);
-      return stored ? JSON.parse(stored).billTheme || 'default' : 'default';
-    } catch {
-      return 'default';
-    }
-  });
+  const [shopName, setShopName] = useState<string>(DEFAULT_SETTINGS.shopName);
+  const [billTheme, setBillTheme] = useState<string>(DEFAULT_SETTINGS.billTheme);
+  const [bankAccount, setBankAccount] = useState<BankAccount | undefined>(undefined);
+  const [commission, setCommission] = useState<CommissionSettings>(DEFAULT_COMMISSION_SETTINGS);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      getMeta<Partial<ShopSettings>>(META_KEYS.shopSettings)
+        .then(stored => {
+          if (cancelled || !stored) return;
+          setShopName(stored.shopName || DEFAULT_SETTINGS.shopName);
+          setBillTheme(stored.billTheme || DEFAULT_SETTINGS.billTheme);
+          setBankAccount(stored.bankAccount);
+          setCommission(stored.commission || DEFAULT_COMMISSION_SETTINGS);
+        })
+        .catch(error => console.error("Error reading shop settings from IndexedDB", error));
+    };
+    load();
+    // Re-read when another tab changes the settings
+    const unsubscribe = subscribeToChanges(META_KEYS.shopSettings, load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
 
   const updateShopName = (name: string) => {
     setShopName(name);
+    return saveShopSettings({ shopName: name }).catch(error => reportStorageError("Error saving shop settings", error));
   };
 
   const updateBillTheme = (theme: string) => {
     setBillTheme(theme);
+    return saveShopSettings({ billTheme: theme }).catch(error => reportStorageError("Error saving shop settings", error));
   }
 
-  useEffect(() => {
-    localStorage.setItem(SHOP_SETTINGS_KEY, JSON.stringify({ shopName, billTheme }));
-  }, [shopName, billTheme]);
+  // Pass undefined to remove the account (and the QR code on receipts)
+  const updateBankAccount = (account: BankAccount | undefined) => {
+    setBankAccount(account);
+    return saveShopSettings({ bankAccount: account }).catch(error => reportStorageError("Error saving shop settings", error));
+  };
+
+  const updateCommission = (settings: CommissionSettings) => {
+    setCommission(settings);
+    return saveShopSettings({ commission: settings }).catch(error => reportStorageError("Error saving shop settings", error));
+  };
 
-  return { shopName, updateShopName, billTheme, updateBillTheme };
+  return { shopName, updateShopName, billTheme, updateBillTheme, bankAccount, updateBankAccount, commission, updateCommission };
 };
@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { setMeta, META_KEYS, reportStorageError } from '../utils/db';
+import { subscribeToChanges } from '../utils/broadcast';
+import {
+  takeDailySnapshot, listSnapshots, pruneSnapshots, getSnapshotRetentionDays, DEFAULT_SNAPSHOT_RETENTION_DAYS
+} from '../utils/snapshots';
+import type { SnapshotSummary } from '../utils/snapshots';
+
+const SNAPSHOT_CHECK_INTERVAL = 60 * 60 * 1000; // Hourly, so an app left open overnight still snapshots the new day
+
+const useSnapshots = () => {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_SNAPSHOT_RETENTION_DAYS);
+
+  const refreshSnapshots = useCallback(() => {
+    listSnapshots()
+      .then(setSnapshots)
+      .catch(error => console.error("Error reading snapshots", error));
+  }, []);
+
+  useEffect(() => {
+    getSnapshotRetentionDays()
+      .then(setRetentionDays)
+      .catch(error => console.error("Error reading snapshot retention", error));
+  }, []);
+
+  useEffect(() => {
+    const run = () => {
+      takeDailySnapshot()
+        .then(refreshSnapshots)
+        .catch(error => console.error("Error taking daily snapshot", error));
+    };
+    run();
+    const intervalId = setInterval(run, SNAPSHOT_CHECK_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [refreshSnapshots]);
+
+  useEffect(() => subscribeToChanges('snapshots', refreshSnapshots), [refreshSnapshots]);
+
+  const updateRetentionDays = useCallback((days: number) => {
+    setRetentionDays(days);
+    setMeta(META_KEYS.snapshotRetentionDays, days)
+      .then(() => pruneSnapshots(days))
+      .then(refreshSnapshots)
+      .catch(error => reportStorageError("Error saving snapshot retention", error));
+  }, [refreshSnapshots]);
+
+  return { snapshots, retentionDays, updateRetentionDays, refreshSnapshots };
+};
+
+export default useSnapshots;
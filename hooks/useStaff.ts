@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Technician } from '../types';
+import { getMeta, setMeta, META_KEYS, reportStorageError } from '../utils/db';
+import { subscribeToChanges } from '../utils/broadcast';
+
+// Colors offered for new technicians, picked in turn so neighbours in the list differ
+export const STAFF_COLORS = ['#f25fd2', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#14b8a6', '#6366f1'];
+
+// The roster is small and read as a whole, so like categories it is stored as a single list.
+const useStaff = () => {
+  const [staff, setStaff] = useState<Technician[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      getMeta<Technician[]>(META_KEYS.staff)
+        .then(stored => {
+          if (!cancelled) setStaff(stored || []);
+        })
+        .catch(error => console.error("Error reading staff from IndexedDB", error));
+    };
+    load();
+    const unsubscribe = subscribeToChanges(META_KEYS.staff, load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  const saveStaff = useCallback((next: Technician[]) => {
+    setStaff(next);
+    return setMeta(META_KEYS.staff, next).catch(error => reportStorageError("Error saving staff", error));
+  }, []);
+
+  const addTechnician = useCallback((technician: Omit<Technician, 'id'>) => {
+    const newTechnician: Technician = {
+      ...technician,
+      id: 'staff-' + Date.now() + Math.random().toString(36).substr(2, 9),
+    };
+    saveStaff([...staff, newTechnician]);
+  }, [staff, saveStaff]);
+
+  // Technicians are deactivated rather than deleted, since old bills still point at them
+  const updateTechnician = useCallback((technician: Technician) => {
+    saveStaff(staff.map(t => (t.id === technician.id ? technician : t)));
+  }, [staff, saveStaff]);
+
+  const restoreStaff = useCallback((staffToRestore: Technician[]) => {
+    setStaff(staffToRestore);
+    return setMeta(META_KEYS.staff, staffToRestore);
+  }, []);
+
+  return { staff, addTechnician, updateTechnician, restoreStaff };
+};
+
+export default useStaff;
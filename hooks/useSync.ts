@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { runSync, enableSync, disableSync, getSyncConfig, countPendingChanges, SyncError } from '../utils/sync';
+import type { SyncConfig, InitialSyncMode } from '../utils/sync';
+import { subscribeToChanges } from '../utils/broadcast';
+import { META_KEYS } from '../utils/db';
+
+const SYNC_INTERVAL = 20 * 1000;
+
+export type SyncStatus = 'off' | 'idle' | 'syncing' | 'error';
+
+const describeError = (error: unknown) =>
+  error instanceof SyncError ? error.message : 'Đã xảy ra lỗi khi đồng bộ.';
+
+const useSync = () => {
+  const [config, setConfig] = useState<SyncConfig | undefined>(undefined);
+  const [status, setStatus] = useState<Exclude<SyncStatus, 'off'>>('idle');
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+
+  const isEnabled = !!config?.enabled;
+
+  const refreshState = useCallback(async () => {
+    const [stored, pending] = await Promise.all([getSyncConfig(), countPendingChanges()]);
+    setConfig(stored);
+    setPendingCount(pending);
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    setStatus('syncing');
+    try {
+      await runSync();
+      setLastError(null);
+      setStatus('idle');
+    } catch (error) {
+      console.error("Sync failed", error);
+      setLastError(describeError(error));
+      setStatus('error');
+    }
+    await refreshState().catch(error => console.error("Error reading sync state", error));
+  }, [refreshState]);
+
+  useEffect(() => {
+    refreshState().catch(error => console.error("Error reading sync state", error));
+    // Sync may be switched on or off in another tab
+    return subscribeToChanges(META_KEYS.syncConfig, () => {
+      refreshState().catch(error => console.error("Error reading sync state", error));
+    });
+  }, [refreshState]);
+
+  // While enabled: sync now, on an interval, and as soon as the device is back online
+  useEffect(() => {
+    if (!isEnabled) return;
+    syncNow();
+    const intervalId = setInterval(syncNow, SYNC_INTERVAL);
+    window.addEventListener('online', syncNow);
+    return () => {
+      clearInterval(intervalId);
+      window.removeEventListener('online', syncNow);
+    };
+  }, [isEnabled, syncNow]);
+
+  // Resolves to an error message, or null on success
+  const connect = useCallback(async (serverUrl: string, token: string, mode: InitialSyncMode): Promise<string | null> => {
+    setStatus('syncing');
+    try {
+      await enableSync(serverUrl, token, mode);
+      setLastError(null);
+      setStatus('idle');
+      await refreshState();
+      return null;
+    } catch (error) {
+      console.error("Failed to enable sync", error);
+      await disableSync().catch(() => undefined);
+      await refreshState().catch(() => undefined);
+      setStatus('idle');
+      return describeError(error);
+    }
+  }, [refreshState]);
+
+  const disconnect = useCallback(async () => {
+    try {
+      await disableSync();
+    } catch (error) {
+      console.error("Failed to disable sync", error);
+    }
+    setLastError(null);
+    await refreshState().catch(error => console.error("Error reading sync state", error));
+  }, [refreshState]);
+
+  return {
+    syncConfig: config,
+    syncStatus: (isEnabled ? status : 'off') as SyncStatus,
+    syncError: lastError,
+    pendingCount,
+    syncNow, connect, disconnect
+  };
+};
+
+export default useSync;
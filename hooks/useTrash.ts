@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { setMeta, META_KEYS, reportStorageError } from '../utils/db';
+import { subscribeToChanges } from '../utils/broadcast';
+import {
+  listTrash, restoreFromTrash, purgeTrashEntries, purgeExpiredTrash, getTrashRetentionDays, DEFAULT_TRASH_RETENTION_DAYS
+} from '../utils/trash';
+import type { TrashEntry } from '../utils/trash';
+
+const useTrash = () => {
+  const [trashEntries, setTrashEntries] = useState<TrashEntry[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+
+  const refreshTrash = useCallback(() => {
+    listTrash()
+      .then(setTrashEntries)
+      .catch(error => console.error("Error reading trash", error));
+  }, []);
+
+  // Auto-purge once per app start
+  useEffect(() => {
+    getTrashRetentionDays()
+      .then(days => {
+        setTrashRetentionDays(days);
+        return purgeExpiredTrash(days);
+      })
+      .then(refreshTrash)
+      .catch(error => console.error("Error purging trash", error));
+  }, [refreshTrash]);
+
+  useEffect(() => subscribeToChanges('trash', refreshTrash), [refreshTrash]);
+
+  // Resolves once the records are back in their stores, so callers can reload them.
+  const restoreTrashGroup = useCallback(async (groupId: string) => {
+    const entries = (await listTrash()).filter(entry => entry.groupId === groupId);
+    await restoreFromTrash(entries);
+    refreshTrash();
+  }, [refreshTrash]);
+
+  const purgeTrashGroup = useCallback((groupId: string) => {
+    setTrashEntries(prev => prev.filter(entry => entry.groupId !== groupId));
+    listTrash()
+      .then(entries => purgeTrashEntries(entries.filter(entry => entry.groupId === groupId).map(entry => entry.id)))
+      .catch(error => reportStorageError("Error purging trash", error));
+  }, []);
+
+  const emptyTrash = useCallback(() => {
+    setTrashEntries([]);
+    listTrash()
+      .then(entries => purgeTrashEntries(entries.map(entry => entry.id)))
+      .catch(error => reportStorageError("Error emptying trash", error));
+  }, []);
+
+  const updateTrashRetentionDays = useCallback((days: number) => {
+    setTrashRetentionDays(days);
+    setMeta(META_KEYS.trashRetentionDays, days)
+      .then(() => purgeExpiredTrash(days))
+      .then(refreshTrash)
+      .catch(error => reportStorageError("Error saving trash retention", error));
+  }, [refreshTrash]);
+
+  return {
+    trashEntries, trashRetentionDays, refreshTrash,
+    restoreTrashGroup, purgeTrashGroup, emptyTrash, updateTrashRetentionDays
+  };
+};
+
+export default useTrash;
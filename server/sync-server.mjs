@@ -0,0 +1,144 @@
+// Small sync server for running on a PC in the shop. Every device pushes its queued changes and
+// pulls what the others wrote; data is kept in a single JSON file next to this script.
+//
+//   node server/sync-server.mjs [port] [data-file]
+//
+// Set SYNC_TOKEN to require the same access code on every device.
+// Conflicts use the same rule as the app (utils/sync.ts): higher version wins, comparing the
+// clock first and the device id second.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8787);
+const DATA_FILE = path.resolve(process.argv[3] || path.join(path.dirname(fileURLToPath(import.meta.url)), 'sync-data.json'));
+const TOKEN = process.env.SYNC_TOKEN || '';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+// { cursor, records: { [key]: { seq, change } } } - only the winning version of each record is kept
+let state = { cursor: 0, records: {} };
+
+const loadState = () => {
+  if (!fs.existsSync(DATA_FILE)) return;
+  const parsed = JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+  if (typeof parsed.cursor === 'number' && parsed.records && typeof parsed.records === 'object') {
+    state = parsed;
+  }
+};
+
+// Written to a temporary file first, so a crash mid-write never leaves a truncated data file.
+const saveState = () => {
+  const tempFile = `${DATA_FILE}.tmp`;
+  fs.writeFileSync(tempFile, JSON.stringify(state));
+  fs.renameSync(tempFile, DATA_FILE);
+};
+
+const compareVersions = (a, b) =>
+  a.ts !== b.ts ? a.ts - b.ts : a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0;
+
+const isValidChange = (change) =>
+  change && typeof change === 'object' &&
+  typeof change.key === 'string' && typeof change.store === 'string' && typeof change.id === 'string' &&
+  typeof change.deleted === 'boolean' &&
+  change.version && typeof change.version.ts === 'number' && typeof change.version.deviceId === 'string';
+
+const handleSync = ({ since, changes }) => {
+  const rejectedKeys = [];
+  let accepted = 0;
+
+  changes.forEach(change => {
+    const existing = state.records[change.key];
+    if (!existing || compareVersions(change.version, existing.change.version) > 0) {
+      state.cursor += 1;
+      state.records[change.key] = { seq: state.cursor, change };
+      accepted += 1;
+    } else if (compareVersions(change.version, existing.change.version) < 0) {
+      rejectedKeys.push(change.key);
+    }
+  });
+  if (accepted > 0) saveState();
+
+  const outgoing = Object.values(state.records).filter(entry => entry.seq > since);
+  // A device whose change lost needs the winner even if it already pulled it
+  rejectedKeys.forEach(key => {
+    const winner = state.records[key];
+    if (winner.seq <= since) outgoing.push(winner);
+  });
+  outgoing.sort((a, b) => a.seq - b.seq);
+
+  return { changes: outgoing.map(entry => entry.change), cursor: state.cursor };
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  // The app is served from a different origin (or installed as a PWA), so allow cross-origin calls
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Private-Network', 'true');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    sendJson(res, 401, { error: 'Unauthorized' });
+    return;
+  }
+
+  try {
+    if (req.method === 'GET' && req.url === '/status') {
+      const records = Object.values(state.records).filter(entry => !entry.change.deleted).length;
+      sendJson(res, 200, { records, cursor: state.cursor });
+      return;
+    }
+
+    if (req.method === 'POST' && req.url === '/sync') {
+      const body = JSON.parse(await readBody(req));
+      const since = Number.isInteger(body.since) && body.since >= 0 ? body.since : 0;
+      if (!Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+        sendJson(res, 400, { error: 'Invalid changes' });
+        return;
+      }
+      sendJson(res, 200, handleSync({ since, changes: body.changes }));
+      return;
+    }
+
+    sendJson(res, 404, { error: 'Not found' });
+  } catch (error) {
+    console.error('Sync request failed', error);
+    sendJson(res, 400, { error: 'Bad request' });
+  }
+});
+
+loadState();
+server.listen(PORT, '0.0.0.0', () => {
+  console.log(`Nail Spa sync server listening on port ${PORT}`);
+  console.log(`Data file: ${DATA_FILE}`);
+  if (!TOKEN) console.log('Warning: SYNC_TOKEN is not set, any device on the network can sync.');
+});
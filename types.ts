@@ -20,28 +20,64 @@ export interface PredefinedService {
   categoryId?: string;
 }
 
+// A change to one line's price, and why it was made
+export interface ItemAdjustment {
+  type: 'percent' | 'amount' | 'override'; // override: `value` replaces the unit price
+  value: number;
+  reason: string; // e.g. "Khách quen", "Làm lại"
+}
+
 export interface ServiceItem {
   id:string;
   serviceId: string; // ID from PredefinedService
   name: string;
   variantName?: string; // Name of the selected variant
-  price: number;
+  price: number; // Line total charged: unit price × quantity, after any adjustment
   quantity: number;
+  technicianId?: string; // Technician who did this item
+  listPrice?: number; // Line total before the adjustment; only set on adjusted items
+  adjustment?: ItemAdjustment;
+}
+
+export type PaymentMethod = 'cash' | 'transfer' | 'card';
+
+export interface Payment {
+  method: PaymentMethod;
+  amount: number;
+}
+
+// Part of a bill's tip that goes to one technician
+export interface TipSplit {
+  technician: string; // Name as shown when the tip was split
+  technicianId?: string; // Roster technician; unset for names typed that nobody on the roster has
+  amount: number;
 }
 
 export interface Bill {
   id: string;
   customerName: string;
+  customerId?: string; // Customer profile the bill belongs to; unset for walk-ins without a profile
   date: string; // ISO 8601 format with time: YYYY-MM-DDTHH:mm:ss.sssZ
   items: ServiceItem[];
   total: number;
   discountValue?: number; // Giá trị giảm giá
   discountType?: 'percent' | 'amount'; // Loại giảm giá: % hoặc số tiền cố định
   note?: string;
+  payments?: Payment[]; // How the total (and tip) was paid, split across methods; unset on bills from before payments were recorded
+  tip?: number; // On top of the total; not service revenue
+  tipSplits?: TipSplit[]; // Who the tip goes to; a tip without splits is not assigned to anyone yet
 }
 
 export interface Booking extends Bill {
   createdAt?: string; // Thời gian tạo lịch, dùng để tính tiến độ
+  technicianId?: string; // Technician the customer booked with
+}
+
+export interface Technician {
+  id: string;
+  name: string;
+  color: string; // Hex color that marks the technician in lists
+  active: boolean; // Inactive technicians stay on old bills but can't be picked for new ones
 }
 
 export interface Customer {
@@ -52,3 +88,69 @@ export interface Customer {
 }
 
 export type View = 'list' | 'editor' | 'dashboard' | 'services' | 'customers' | 'revenue-calendar';
+
+// Account customers transfer to, shown on receipts as a VietQR code.
+export interface BankAccount {
+  bin: string; // 6-digit NAPAS bank identification number, e.g. 970436 for Vietcombank
+  accountNumber: string;
+  accountName: string;
+}
+
+// What a technician earns for an item: a share of its price, or a flat amount per unit.
+export interface CommissionRule {
+  id: string;
+  technicianId?: string; // Unset: every technician
+  categoryId?: string; // Unset: every service category
+  type: 'percent' | 'fixed';
+  value: number; // Percent (0-100) or VND per unit
+}
+
+// Who carries a bill discount when commission is worked out
+export type CommissionDiscountPolicy = 'shop' | 'proportional' | 'technician';
+
+export interface CommissionSettings {
+  rules: CommissionRule[];
+  discountPolicy: CommissionDiscountPolicy;
+}
+
+export interface ShopSettings {
+  shopName: string;
+  billTheme: string;
+  bankAccount?: BankAccount;
+  commission?: CommissionSettings;
+}
+
+// Everything the app persists, in the shape used by backup files and schema migrations.
+export interface DataSet {
+  bills: Bill[];
+  bookings: Booking[];
+  customers: Customer[];
+  services: PredefinedService[];
+  categories: ServiceCategory[];
+  staff?: Technician[]; // Missing in backups from before the staff roster existed
+  settings?: Partial<ShopSettings>;
+}
+
+export interface BackupFile extends DataSet {
+  schemaVersion: number;
+  exportedAt?: string;
+  notifiedBookingIds?: string[]; // Bookings whose reminder has already been shown
+}
+
+// --- Sync ---
+
+export interface SyncVersion {
+  ts: number; // Hybrid clock: never behind any version this device has seen
+  deviceId: string; // Tie-breaker, so every device picks the same winner
+}
+
+// One record-level change, as queued locally and exchanged with the sync server.
+export interface SyncChange {
+  key: string; // `${store}:${id}`
+  store: 'bills' | 'bookings' | 'customers' | 'services' | 'meta';
+  id: string; // Record id, or the meta key for categories/settings
+  deleted: boolean;
+  record?: unknown;
+  version: SyncVersion;
+  schemaVersion: number;
+}
@@ -0,0 +1,233 @@
+// Old bills can be moved out of the bills store into a compact archive, so the screens that
+// work on every bill (list, dashboard) only see recent ones. The archive keeps one record per
+// month, plus a summary with per-day and per-customer totals that the revenue calendar and the
+// customer list add on top of the live bills.
+//
+// Archiving is local to this device: the bills are removed from the store without queueing a
+// sync deletion, so other devices keep them, and sync writes pulled changes to archived bills
+// back into the archive (see sync.ts). Backups include archived bills.
+
+import type { Bill, Customer, DataSet } from '../types';
+import { createRepository, runTransaction, getMeta, readDataSet, customersRepository, META_KEYS, META_STORE } from './db';
+import { CURRENT_SCHEMA_VERSION, migrateDataSet } from './schema';
+import { notifyChange } from './broadcast';
+import { customerNameKey } from './customerLinks';
+import { addToTrash } from './trash';
+
+export interface DailyAggregate {
+  revenue: number;
+  billCount: number;
+}
+
+export interface CustomerAggregate {
+  customerId?: string; // Profile the bills are linked to; unset for bills that only have a name
+  name: string; // As written on the most recent archived bill
+  totalSpent: number;
+  visitCount: number;
+  lastVisitDate: string;
+}
+
+export interface ArchiveSummary {
+  cutoff: string; // Local date YYYY-MM-DD; every bill before it is archived
+  archivedAt: string;
+  billCount: number;
+  revenue: number;
+  daily: Record<string, DailyAggregate>; // By local date YYYY-MM-DD
+  customers: Record<string, CustomerAggregate>; // By customer id, or by trimmed, lowercased name for bills without one
+}
+
+interface ArchiveChunk {
+  id: string; // Local month YYYY-MM
+  bills: Bill[];
+  schemaVersion: number;
+}
+
+const archiveRepository = createRepository<ArchiveChunk>('billArchive');
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const getLocalDateKey = (isoString: string): string => {
+  const date = new Date(isoString);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const getArchiveSummary = () => getMeta<ArchiveSummary>(META_KEYS.archiveSummary);
+
+// Chunks written by an older app version are upgraded like a backup would be. Without the
+// customers, bills that predate profile links stay unlinked; see migrateArchive.
+const chunkBills = (chunk: ArchiveChunk, customers: Customer[] = []): Bill[] =>
+  chunk.schemaVersion >= CURRENT_SCHEMA_VERSION
+    ? chunk.bills
+    : migrateDataSet({ bills: chunk.bills, bookings: [], customers, services: [], categories: [] }, chunk.schemaVersion).bills;
+
+export const readArchivedBills = async (): Promise<Bill[]> =>
+  (await archiveRepository.getAll()).flatMap(chunk => chunkBills(chunk));
+
+// Everything, archived bills included, e.g. for backups.
+export const readFullDataSet = async (): Promise<DataSet> => {
+  const [data, archived] = await Promise.all([readDataSet(), readArchivedBills()]);
+  return { ...data, bills: [...data.bills, ...archived] };
+};
+
+const summarize = (bills: Bill[], cutoff: string): ArchiveSummary => {
+  const summary: ArchiveSummary = {
+    cutoff, archivedAt: new Date().toISOString(), billCount: bills.length, revenue: 0, daily: {}, customers: {},
+  };
+  bills.forEach(bill => {
+    summary.revenue += bill.total;
+
+    const day = summary.daily[getLocalDateKey(bill.date)] ||= { revenue: 0, billCount: 0 };
+    day.revenue += bill.total;
+    day.billCount += 1;
+
+    const nameKey = customerNameKey(bill.customerName);
+    if (!nameKey) return;
+    const customer = summary.customers[bill.customerId || nameKey] ||= {
+      customerId: bill.customerId, name: bill.customerName.trim(), totalSpent: 0, visitCount: 0, lastVisitDate: '',
+    };
+    customer.totalSpent += bill.total;
+    customer.visitCount += 1;
+    if (bill.date > customer.lastVisitDate) {
+      customer.lastVisitDate = bill.date;
+      customer.name = bill.customerName.trim();
+    }
+  });
+  return summary;
+};
+
+// Moves every bill dated before `cutoff` (local YYYY-MM-DD) into the archive and recomputes the
+// summary from the whole archive. With `replace`, the old archive is dropped in the same
+// transaction, for restores that have just written a backup holding the archived bills too.
+// Returns how many bills were moved.
+export const archiveBillsBefore = async (cutoff: string, { replace = false } = {}): Promise<number> => {
+  const [existing, previous] = await Promise.all([replace ? [] : archiveRepository.getAll(), getArchiveSummary()]);
+  const chunks = new Map(existing.map(chunk => [chunk.id, new Map(chunkBills(chunk).map(bill => [bill.id, bill]))]));
+  let moved = 0;
+
+  await runTransaction(['bills', 'billArchive', META_STORE], tx => {
+    if (replace) tx.objectStore('billArchive').clear();
+    const billsStore = tx.objectStore('bills');
+    const request = billsStore.getAll();
+    request.onsuccess = () => {
+      (request.result as Bill[]).forEach(bill => {
+        if (getLocalDateKey(bill.date) >= cutoff) {
+          // A bill an import moved past the cutoff stays live; drop its old archived copy
+          chunks.forEach(archived => archived.delete(bill.id));
+          return;
+        }
+        const month = getLocalDateKey(bill.date).slice(0, 7);
+        if (!chunks.has(month)) chunks.set(month, new Map());
+        chunks.get(month)!.set(bill.id, bill);
+        // Straight on the store rather than through the record writer: not a deletion to sync
+        billsStore.delete(bill.id);
+        moved++;
+      });
+
+      const archiveStore = tx.objectStore('billArchive');
+      chunks.forEach((bills, month) => {
+        archiveStore.put({ id: month, bills: Array.from(bills.values()), schemaVersion: CURRENT_SCHEMA_VERSION } as ArchiveChunk);
+      });
+      const allArchived = Array.from(chunks.values()).flatMap(bills => Array.from(bills.values()));
+      const effectiveCutoff = previous && previous.cutoff > cutoff ? previous.cutoff : cutoff;
+      tx.objectStore(META_STORE).put(summarize(allArchived, effectiveCutoff), META_KEYS.archiveSummary);
+    };
+  });
+
+  notifyChange(['bills', META_KEYS.archiveSummary]);
+  return moved;
+};
+
+// Rewrites archived bills in place, e.g. to point them at another customer profile, and recomputes
+// the summary so archived totals follow links, renames and merges. `update` returns null to leave
+// a bill as it is. Returns how many bills changed.
+export const updateArchivedBills = async (update: (bill: Bill) => Bill | null): Promise<number> => {
+  const [existing, summary] = await Promise.all([archiveRepository.getAll(), getArchiveSummary()]);
+  if (!summary) return 0;
+  let changed = 0;
+  const chunks = existing.map((chunk): ArchiveChunk => ({
+    ...chunk,
+    bills: chunkBills(chunk).map(bill => {
+      const next = update(bill);
+      if (next) changed++;
+      return next || bill;
+    }),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  }));
+  if (changed > 0) await saveChunks(chunks, summary);
+  return changed;
+};
+
+// Rewrites the given chunks and the summary computed from them, keeping the cutoff and date.
+const saveChunks = async (chunks: ArchiveChunk[], summary: ArchiveSummary): Promise<void> => {
+  await runTransaction(['billArchive', META_STORE], tx => {
+    const archiveStore = tx.objectStore('billArchive');
+    chunks.forEach(chunk => archiveStore.put(chunk));
+    const next = { ...summarize(chunks.flatMap(chunk => chunk.bills), summary.cutoff), archivedAt: summary.archivedAt };
+    tx.objectStore(META_STORE).put(next, META_KEYS.archiveSummary);
+  });
+  notifyChange([META_KEYS.archiveSummary]);
+};
+
+// Upgrades chunks written by an older app version in place, with the live customers, so their
+// bills get linked to profiles by name like the live bills were (schema v3) and the summary
+// counts them under those profiles.
+export const migrateArchive = async (): Promise<void> => {
+  const [existing, summary, customers] = await Promise.all([archiveRepository.getAll(), getArchiveSummary(), customersRepository.getAll()]);
+  if (!summary || existing.every(chunk => chunk.schemaVersion >= CURRENT_SCHEMA_VERSION)) return;
+  await saveChunks(
+    existing.map(chunk => ({ ...chunk, bills: chunkBills(chunk, customers), schemaVersion: CURRENT_SCHEMA_VERSION })),
+    summary
+  );
+};
+
+// Writes `archived` bills (dated before the cutoff) into their month's chunk and drops `removedIds`
+// from the archive, then recomputes the summary. Used for bills pulled from other devices and for
+// archived bills deleted along with their customer. Returns whether the archive changed.
+export const applyArchivedBillChanges = async (archived: Bill[], removedIds: string[]): Promise<boolean> => {
+  const [existing, summary] = await Promise.all([archiveRepository.getAll(), getArchiveSummary()]);
+  if (!summary) return false;
+  const chunks = new Map(existing.map(chunk => [chunk.id, new Map(chunkBills(chunk).map(bill => [bill.id, bill]))]));
+  // Archived bills are dropped first too, in case their date moved them to another month
+  const dropped = [...removedIds, ...archived.map(bill => bill.id)];
+  let changed = archived.length > 0;
+  chunks.forEach(bills => dropped.forEach(id => {
+    if (bills.delete(id)) changed = true;
+  }));
+  if (!changed) return false;
+
+  archived.forEach(bill => {
+    const month = getLocalDateKey(bill.date).slice(0, 7);
+    if (!chunks.has(month)) chunks.set(month, new Map());
+    chunks.get(month)!.set(bill.id, bill);
+  });
+  await saveChunks(
+    Array.from(chunks, ([id, bills]) => ({ id, bills: Array.from(bills.values()), schemaVersion: CURRENT_SCHEMA_VERSION })),
+    summary
+  );
+  return true;
+};
+
+// Moves the archived bills `matches` picks to the trash, e.g. with the customer they belong to.
+// They are trashed before they leave the archive, so a failed write can't lose them.
+// Returns how many bills were trashed.
+export const trashArchivedBills = async (matches: (bill: Bill) => boolean, groupId?: string): Promise<number> => {
+  const trashed = (await readArchivedBills()).filter(matches);
+  if (trashed.length === 0) return 0;
+  await addToTrash('bills', trashed, groupId);
+  await applyArchivedBillChanges([], trashed.map(bill => bill.id));
+  return trashed.length;
+};
+
+// Puts every archived bill back into the bills store and empties the archive.
+export const unarchiveAllBills = async (): Promise<number> => {
+  const archived = await readArchivedBills();
+  await runTransaction(['bills', 'billArchive', META_STORE], tx => {
+    const billsStore = tx.objectStore('bills');
+    // Not synced either way: other devices never saw these bills go
+    archived.forEach(bill => billsStore.put(bill));
+    tx.objectStore('billArchive').clear();
+    tx.objectStore(META_STORE).delete(META_KEYS.archiveSummary);
+  });
+  notifyChange(['bills', META_KEYS.archiveSummary]);
+  return archived.length;
+};
@@ -0,0 +1,174 @@
+import type { Bill, ItemAdjustment, ServiceItem } from '../types';
+import { createRepository, runTransaction } from './db';
+import { describePayments } from './payments';
+import { describeTipSplits } from './tips';
+
+// Bookings share the Bill shape, so both are audited the same way.
+export type AuditEntity = 'bills' | 'bookings';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface ItemSnapshot {
+  name: string;
+  variantName?: string;
+  price: number;
+  quantity: number;
+  technicianId?: string;
+  reason?: string; // Why the price was adjusted
+  adjustmentType?: ItemAdjustment['type'];
+  adjustmentValue?: number;
+}
+
+export type FieldChange =
+  | { field: 'customerName' | 'customerId' | 'date' | 'discountType' | 'note'; before: string | null; after: string | null }
+  | { field: 'payments' | 'tipSplits'; before: string | null; after: string | null } // Described as text when logged
+  | { field: 'total' | 'discountValue' | 'tip'; before: number | null; after: number | null }
+  | { field: 'item'; itemId: string; before: ItemSnapshot | null; after: ItemSnapshot | null };
+
+export interface AuditEntry {
+  id: string;
+  entity: AuditEntity;
+  recordId: string;
+  action: AuditAction;
+  timestamp: string;
+  changes: FieldChange[];
+}
+
+const auditRepository = createRepository<AuditEntry>('auditLog');
+
+export const isAuditedEntity = (entity: string): entity is AuditEntity =>
+  entity === 'bills' || entity === 'bookings';
+
+const toItemSnapshot = (item: ServiceItem): ItemSnapshot => ({
+  name: item.name,
+  variantName: item.variantName,
+  price: item.price,
+  quantity: item.quantity,
+  technicianId: item.technicianId,
+  reason: item.adjustment?.reason,
+  adjustmentType: item.adjustment?.type,
+  adjustmentValue: item.adjustment?.value,
+});
+
+const ITEM_SNAPSHOT_FIELDS: (keyof ItemSnapshot)[] = [
+  'name', 'variantName', 'price', 'quantity', 'technicianId', 'reason', 'adjustmentType', 'adjustmentValue',
+];
+
+const sameItem = (a: ItemSnapshot, b: ItemSnapshot) => ITEM_SNAPSHOT_FIELDS.every(field => a[field] === b[field]);
+
+const diffItems = (before: ServiceItem[], after: ServiceItem[]): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  const beforeById = new Map(before.map(item => [item.id, toItemSnapshot(item)]));
+  const afterById = new Map(after.map(item => [item.id, toItemSnapshot(item)]));
+
+  beforeById.forEach((snapshot, itemId) => {
+    const next = afterById.get(itemId);
+    if (!next) {
+      changes.push({ field: 'item', itemId, before: snapshot, after: null });
+    } else if (!sameItem(snapshot, next)) {
+      changes.push({ field: 'item', itemId, before: snapshot, after: next });
+    }
+  });
+  afterById.forEach((snapshot, itemId) => {
+    if (!beforeById.has(itemId)) changes.push({ field: 'item', itemId, before: null, after: snapshot });
+  });
+  return changes;
+};
+
+// Field-level diff between two versions of a bill; a missing side stands for "did not exist".
+export const diffBills = (before: Bill | undefined, after: Bill | undefined): FieldChange[] => {
+  const changes: FieldChange[] = [];
+
+  (['customerName', 'customerId', 'date', 'discountType', 'note'] as const).forEach(field => {
+    const prev = before?.[field] || null;
+    const next = after?.[field] || null;
+    if (prev !== next) changes.push({ field, before: prev, after: next });
+  });
+  (['total', 'discountValue', 'tip'] as const).forEach(field => {
+    const prev = before?.[field] ?? null;
+    const next = after?.[field] ?? null;
+    if (prev !== next) changes.push({ field, before: prev, after: next });
+  });
+  const prevPayments = describePayments(before?.payments);
+  const nextPayments = describePayments(after?.payments);
+  if (prevPayments !== nextPayments) changes.push({ field: 'payments', before: prevPayments, after: nextPayments });
+  const prevTipSplits = describeTipSplits(before?.tipSplits);
+  const nextTipSplits = describeTipSplits(after?.tipSplits);
+  if (prevTipSplits !== nextTipSplits) changes.push({ field: 'tipSplits', before: prevTipSplits, after: nextTipSplits });
+
+  changes.push(...diffItems(before?.items || [], after?.items || []));
+  return changes;
+};
+
+export const buildAuditEntry = (
+  entity: AuditEntity,
+  action: AuditAction,
+  before: Bill | undefined,
+  after: Bill | undefined
+): AuditEntry => ({
+  id: 'audit-' + Date.now() + Math.random().toString(36).substr(2, 9),
+  entity,
+  recordId: (after || before)!.id,
+  action,
+  timestamp: new Date().toISOString(),
+  changes: diffBills(before, after),
+});
+
+// Writes the records and their audit entries in one transaction. Updates that change nothing are not logged.
+export const saveManyWithAudit = async (entity: AuditEntity, records: Bill[]): Promise<void> => {
+  await runTransaction([entity, 'auditLog'], (tx, writer) => {
+    records.forEach(record => {
+      const request = tx.objectStore(entity).get(record.id);
+      request.onsuccess = () => {
+        const previous: Bill | undefined = request.result;
+        const entry = buildAuditEntry(entity, previous ? 'update' : 'create', previous, record);
+        writer.put(entity, record);
+        if (entry.action === 'create' || entry.changes.length > 0) {
+          tx.objectStore('auditLog').put(entry);
+        }
+      };
+    });
+  });
+};
+
+export const saveWithAudit = (entity: AuditEntity, record: Bill): Promise<void> => saveManyWithAudit(entity, [record]);
+
+// Replaces every record in the store (backup restores and merge imports), logging each record the
+// replace adds ('restore'), changes or removes, so the history has no gaps around imports.
+export const replaceAllWithAudit = async (entity: AuditEntity, records: Bill[]): Promise<void> => {
+  await runTransaction([entity, 'auditLog'], (tx, writer) => {
+    const request = tx.objectStore(entity).getAll();
+    request.onsuccess = () => {
+      const auditLog = tx.objectStore('auditLog');
+      const previousById = new Map((request.result as Bill[]).map(record => [record.id, record]));
+      const keep = new Set(records.map(record => record.id));
+      previousById.forEach((previous, id) => {
+        if (keep.has(id)) return;
+        writer.delete(entity, id);
+        auditLog.put(buildAuditEntry(entity, 'delete', previous, undefined));
+      });
+      records.forEach(record => {
+        const previous = previousById.get(record.id);
+        const entry = buildAuditEntry(entity, previous ? 'update' : 'restore', previous, record);
+        writer.put(entity, record);
+        if (entry.action === 'restore' || entry.changes.length > 0) auditLog.put(entry);
+      });
+    };
+  });
+};
+
+// Permanent removal (not via the trash), still recorded in the log.
+export const removeWithAudit = async (entity: AuditEntity, id: string): Promise<void> => {
+  await runTransaction([entity, 'auditLog'], (tx, writer) => {
+    const request = tx.objectStore(entity).get(id);
+    request.onsuccess = () => {
+      if (!request.result) return;
+      writer.delete(entity, id);
+      tx.objectStore('auditLog').put(buildAuditEntry(entity, 'delete', request.result, undefined));
+    };
+  });
+};
+
+// Oldest first, for a timeline.
+export const listAuditEntries = async (recordId: string): Promise<AuditEntry[]> =>
+  (await auditRepository.getAllByIndex('recordId', recordId)).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
@@ -0,0 +1,79 @@
+// Passphrase-protected backup format. The backup JSON is encrypted with AES-GCM using a
+// key derived from the passphrase with PBKDF2; salt and IV are stored next to the ciphertext.
+
+export const ENCRYPTED_BACKUP_FORMAT = 'nail-spa-encrypted-backup';
+
+const PBKDF2_ITERATIONS = 250000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  data: string; // Base64 ciphertext
+}
+
+// Thrown when decryption fails, which with AES-GCM means the passphrase is wrong
+// (or the file was modified after export).
+export class BackupPassphraseError extends Error {
+  constructor() {
+    super('Incorrect backup passphrase');
+    this.name = 'BackupPassphraseError';
+  }
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (raw: any): raw is EncryptedBackup =>
+  typeof raw === 'object' && raw !== null && raw.format === ENCRYPTED_BACKUP_FORMAT;
+
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<EncryptedBackup> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+
+  return {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    data: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+// Returns the decrypted backup JSON text. Throws BackupPassphraseError on a wrong passphrase.
+export const decryptBackup = async (backup: EncryptedBackup, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(backup.kdf.salt), backup.kdf.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(backup.cipher.iv) }, key, fromBase64(backup.data));
+  } catch {
+    throw new BackupPassphraseError();
+  }
+  return new TextDecoder().decode(plaintext);
+};
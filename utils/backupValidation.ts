@@ -0,0 +1,223 @@
+// Structural checks for backup files, run before schema migrations so that a
+// half-corrupt file can't put malformed records into the stores.
+
+export type BackupCollection = 'bills' | 'bookings' | 'customers' | 'services' | 'categories' | 'staff';
+
+export const BACKUP_COLLECTIONS: BackupCollection[] = ['bills', 'bookings', 'customers', 'services', 'categories', 'staff'];
+
+export interface RecordIssue {
+  collection: BackupCollection;
+  index: number;
+  id?: string;
+  errors: string[];
+}
+
+export interface BackupValidationReport {
+  fatal: string[]; // Problems that make the whole file unusable
+  issues: RecordIssue[];
+  counts: Record<BackupCollection, { total: number; valid: number }>;
+}
+
+type Validator = (record: any) => string[];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const checkOptional = (errors: string[], value: unknown, isValid: boolean, message: string) => {
+  if (value !== undefined && value !== null && !isValid) errors.push(message);
+};
+
+const ADJUSTMENT_TYPE_VALUES = ['percent', 'amount', 'override'];
+
+const validateServiceItem = (item: any, index: number): string[] => {
+  const label = `Dịch vụ #${index + 1}`;
+  if (!isObject(item)) return [`${label} không phải là đối tượng`];
+  const errors: string[] = [];
+  if (typeof item.name !== 'string') errors.push(`${label}: thiếu tên dịch vụ`);
+  if (!isFiniteNumber(item.price)) errors.push(`${label}: giá không phải là số`);
+  checkOptional(errors, item.quantity, isFiniteNumber(item.quantity) && item.quantity >= 0, `${label}: số lượng không hợp lệ`);
+  checkOptional(errors, item.technicianId, typeof item.technicianId === 'string', `${label}: mã thợ không phải là chuỗi`);
+  checkOptional(errors, item.listPrice, isFiniteNumber(item.listPrice), `${label}: giá gốc không phải là số`);
+  checkOptional(
+    errors, item.adjustment,
+    isObject(item.adjustment) && ADJUSTMENT_TYPE_VALUES.includes(item.adjustment.type) && isFiniteNumber(item.adjustment.value) && typeof item.adjustment.reason === 'string',
+    `${label}: giảm giá theo dịch vụ không hợp lệ`
+  );
+  return errors;
+};
+
+const PAYMENT_METHOD_VALUES = ['cash', 'transfer', 'card'];
+
+const validatePayments = (payments: unknown): string[] => {
+  if (payments === undefined || payments === null) return [];
+  if (!Array.isArray(payments)) return ['Danh sách thanh toán không hợp lệ'];
+  return payments.flatMap((payment: any, i: number) =>
+    isObject(payment) && PAYMENT_METHOD_VALUES.includes(payment.method) && isFiniteNumber(payment.amount)
+      ? []
+      : [`Thanh toán #${i + 1} không hợp lệ`]
+  );
+};
+
+const validateTipSplits = (splits: unknown): string[] => {
+  if (splits === undefined || splits === null) return [];
+  if (!Array.isArray(splits)) return ['Danh sách chia tip không hợp lệ'];
+  return splits.flatMap((split: any, i: number) =>
+    isObject(split) && typeof split.technician === 'string' && isFiniteNumber(split.amount) &&
+    (split.technicianId === undefined || typeof split.technicianId === 'string')
+      ? []
+      : [`Phần tip #${i + 1} không hợp lệ`]
+  );
+};
+
+const validateBill: Validator = (bill) => {
+  const errors: string[] = [];
+  if (typeof bill.customerName !== 'string') errors.push('Thiếu tên khách hàng');
+  checkOptional(errors, bill.customerId, typeof bill.customerId === 'string', 'Mã khách hàng không phải là chuỗi');
+  checkOptional(errors, bill.technicianId, typeof bill.technicianId === 'string', 'Mã thợ không phải là chuỗi');
+  if (typeof bill.date !== 'string' || isNaN(new Date(bill.date).getTime())) errors.push('Ngày không hợp lệ');
+  if (!Array.isArray(bill.items)) {
+    errors.push('Thiếu danh sách dịch vụ (items)');
+  } else {
+    bill.items.forEach((item: any, i: number) => errors.push(...validateServiceItem(item, i)));
+  }
+  if (!isFiniteNumber(bill.total)) errors.push('Tổng tiền (total) không phải là số');
+  checkOptional(errors, bill.discountValue, isFiniteNumber(bill.discountValue), 'Giá trị giảm giá không phải là số');
+  checkOptional(errors, bill.discountType, bill.discountType === 'percent' || bill.discountType === 'amount', 'Loại giảm giá không hợp lệ');
+  checkOptional(errors, bill.note, typeof bill.note === 'string', 'Ghi chú không phải là chuỗi');
+  errors.push(...validatePayments(bill.payments));
+  checkOptional(errors, bill.tip, isFiniteNumber(bill.tip) && bill.tip >= 0, 'Tiền tip không hợp lệ');
+  errors.push(...validateTipSplits(bill.tipSplits));
+  return errors;
+};
+
+const validateCustomer: Validator = (customer) => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(customer.name)) errors.push('Thiếu tên khách hàng');
+  checkOptional(errors, customer.phone, typeof customer.phone === 'string', 'Số điện thoại không phải là chuỗi');
+  checkOptional(errors, customer.dob, typeof customer.dob === 'string' && (customer.dob === '' || /^\d{4}-\d{2}-\d{2}$/.test(customer.dob)), 'Ngày sinh phải có dạng YYYY-MM-DD');
+  return errors;
+};
+
+const validateService: Validator = (service) => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(service.name)) errors.push('Thiếu tên dịch vụ');
+  if (!isFiniteNumber(service.price)) errors.push('Giá không phải là số');
+  checkOptional(errors, service.priceType, service.priceType === 'fixed' || service.priceType === 'variable', 'Kiểu giá không hợp lệ');
+  if (service.variants !== undefined && service.variants !== null) {
+    if (!Array.isArray(service.variants)) {
+      errors.push('Danh sách mức giá không hợp lệ');
+    } else {
+      service.variants.forEach((variant: any, i: number) => {
+        if (!isObject(variant) || typeof variant.name !== 'string' || !isFiniteNumber(variant.price)) {
+          errors.push(`Mức giá #${i + 1} không hợp lệ`);
+        }
+      });
+    }
+  }
+  checkOptional(errors, service.allowQuantity, typeof service.allowQuantity === 'boolean', 'allowQuantity phải là true/false');
+  checkOptional(errors, service.categoryId, typeof service.categoryId === 'string', 'Mã loại dịch vụ không hợp lệ');
+  return errors;
+};
+
+const validateCategory: Validator = (category) =>
+  isNonEmptyString(category.name) ? [] : ['Thiếu tên loại dịch vụ'];
+
+const validateTechnician: Validator = (technician) => {
+  const errors: string[] = [];
+  if (!isNonEmptyString(technician.name)) errors.push('Thiếu tên thợ');
+  if (typeof technician.color !== 'string') errors.push('Màu của thợ không hợp lệ');
+  if (typeof technician.active !== 'boolean') errors.push('Trạng thái của thợ phải là true/false');
+  return errors;
+};
+
+const VALIDATORS: Record<BackupCollection, Validator> = {
+  bills: validateBill,
+  bookings: validateBill,
+  customers: validateCustomer,
+  services: validateService,
+  categories: validateCategory,
+  staff: validateTechnician,
+};
+
+const validateCollection = (collection: BackupCollection, records: any[], issues: RecordIssue[]) => {
+  const seenIds = new Set<string>();
+  let valid = 0;
+
+  records.forEach((record, index) => {
+    let errors: string[];
+    if (!isObject(record)) {
+      errors = ['Bản ghi không phải là đối tượng'];
+    } else {
+      errors = [];
+      if (!isNonEmptyString(record.id)) {
+        errors.push('Thiếu mã (id)');
+      } else if (seenIds.has(record.id)) {
+        errors.push('Trùng mã (id) với bản ghi khác');
+      } else {
+        seenIds.add(record.id);
+      }
+      errors.push(...VALIDATORS[collection](record));
+    }
+
+    if (errors.length > 0) {
+      issues.push({ collection, index, id: isObject(record) && typeof record.id === 'string' ? record.id : undefined, errors });
+    } else {
+      valid++;
+    }
+  });
+
+  return { total: records.length, valid };
+};
+
+export const validateBackup = (raw: any): BackupValidationReport => {
+  const report: BackupValidationReport = {
+    fatal: [],
+    issues: [],
+    counts: {
+      bills: { total: 0, valid: 0 },
+      bookings: { total: 0, valid: 0 },
+      customers: { total: 0, valid: 0 },
+      services: { total: 0, valid: 0 },
+      categories: { total: 0, valid: 0 },
+      staff: { total: 0, valid: 0 },
+    },
+  };
+
+  if (!isObject(raw)) {
+    report.fatal.push('Tệp không chứa dữ liệu sao lưu.');
+    return report;
+  }
+  if (!Array.isArray(raw.bills)) report.fatal.push('Tệp không chứa danh sách hóa đơn.');
+  if (!Array.isArray(raw.services)) report.fatal.push('Tệp không chứa danh sách dịch vụ.');
+  if (raw.settings !== undefined && !isObject(raw.settings)) report.fatal.push('Phần cài đặt (settings) không hợp lệ.');
+
+  BACKUP_COLLECTIONS.forEach(collection => {
+    const records = raw[collection];
+    if (records === undefined) return;
+    if (!Array.isArray(records)) {
+      report.fatal.push(`Phần "${collection}" không phải là danh sách.`);
+      return;
+    }
+    report.counts[collection] = validateCollection(collection, records, report.issues);
+  });
+
+  return report;
+};
+
+// Returns a copy of the raw backup without the records listed in the report.
+export const stripInvalidRecords = (raw: any, report: BackupValidationReport): any => {
+  const invalid = new Set(report.issues.map(issue => `${issue.collection}:${issue.index}`));
+  const cleaned = { ...raw };
+  BACKUP_COLLECTIONS.forEach(collection => {
+    if (Array.isArray(raw[collection])) {
+      cleaned[collection] = raw[collection].filter((_: unknown, index: number) => !invalid.has(`${collection}:${index}`));
+    }
+  });
+  return cleaned;
+};
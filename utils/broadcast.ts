@@ -0,0 +1,48 @@
+// Tells other tabs/windows of the app which stores changed, so their hooks can re-read them.
+// BroadcastChannel does not deliver a message back to the tab that sent it, which is what we
+// want: the writing tab has already updated its own state.
+
+const CHANNEL_NAME = 'nailSpaDB-changes';
+
+// Store names, or meta keys (e.g. 'categories', 'shopSettings') for data kept in the meta store.
+export type ChangeTopic = string;
+
+interface ChangeMessage {
+  topics: ChangeTopic[];
+}
+
+type ChangeListener = () => void;
+
+const listeners = new Map<ChangeTopic, Set<ChangeListener>>();
+
+const channel: BroadcastChannel | null = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+if (channel) {
+  channel.onmessage = (event: MessageEvent<ChangeMessage>) => {
+    const topics = Array.isArray(event.data?.topics) ? event.data.topics : [];
+    topics.forEach(topic => listeners.get(topic)?.forEach(listener => listener()));
+  };
+}
+
+export const broadcastChange = (topics: ChangeTopic[]) => {
+  if (!channel || topics.length === 0) return;
+  try {
+    channel.postMessage({ topics } as ChangeMessage);
+  } catch (error) {
+    console.error("Error broadcasting change", error);
+  }
+};
+
+// For changes that did not come from this tab's own hooks (e.g. pulled from the sync server):
+// tells this tab's listeners as well as the other tabs.
+export const notifyChange = (topics: ChangeTopic[]) => {
+  topics.forEach(topic => listeners.get(topic)?.forEach(listener => listener()));
+  broadcastChange(topics);
+};
+
+// Returns an unsubscribe function, so it can be returned directly from useEffect.
+export const subscribeToChanges = (topic: ChangeTopic, listener: ChangeListener) => {
+  if (!listeners.has(topic)) listeners.set(topic, new Set());
+  listeners.get(topic)!.add(listener);
+  return () => { listeners.get(topic)?.delete(listener); };
+};
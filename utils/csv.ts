@@ -0,0 +1,137 @@
+import type { Bill } from '../types';
+import { getBillSubtotal, getItemDiscount, getItemListPrice } from './discounts';
+
+// Excel only detects UTF-8 (and so shows Vietnamese names correctly) when the file starts with a BOM.
+const UTF8_BOM = '\uFEFF';
+
+const BILL_CSV_HEADERS = [
+  'Mã hóa đơn', 'Ngày', 'Khách hàng', 'Dịch vụ', 'Loại', 'Số lượng', 'Đơn giá', 'Giảm giá', 'Lý do giảm giá', 'Thành tiền', 'Ghi chú'
+];
+
+export const stripBom = (text: string) => (text.startsWith(UTF8_BOM) ? text.slice(1) : text);
+
+type CsvCell = string | number | undefined | null;
+
+// Text starting with one of these is run as a formula by spreadsheets (CSV injection)
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+const escapeCsvCell = (value: CsvCell): string => {
+  if (value === undefined || value === null) return '';
+  // Only text is escaped: negative amounts must stay numbers
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: CsvCell[][]): string =>
+  UTF8_BOM + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+
+// Local time as YYYY-MM-DD HH:mm, which spreadsheets parse as a date.
+const formatCsvDate = (isoString: string): string => {
+  const date = new Date(isoString);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// One row per service item. "Giảm giá" is the item's own adjustment plus its share of the bill
+// discount, spread in proportion to the item amounts, so "Thành tiền" adds up to the bill total.
+export const billsToCsv = (bills: Bill[]): string => {
+  const rows: CsvCell[][] = [BILL_CSV_HEADERS];
+
+  bills.forEach(bill => {
+    const date = formatCsvDate(bill.date);
+    if (bill.items.length === 0) {
+      rows.push([bill.id, date, bill.customerName, '', '', '', '', '', '', bill.total, bill.note]);
+      return;
+    }
+
+    const subtotal = getBillSubtotal(bill);
+    const billDiscount = Math.max(0, subtotal - bill.total);
+    let remainingDiscount = billDiscount;
+
+    bill.items.forEach((item, index) => {
+      const amount = item.price;
+      const isLast = index === bill.items.length - 1;
+      const discount = isLast
+        ? remainingDiscount
+        : subtotal > 0 ? Math.round(billDiscount * amount / subtotal) : 0;
+      remainingDiscount -= discount;
+      rows.push([
+        bill.id, date, bill.customerName, item.name, item.variantName, item.quantity,
+        Math.round(getItemListPrice(item) / (item.quantity || 1)), getItemDiscount(item) + discount,
+        item.adjustment?.reason, amount - discount, bill.note
+      ]);
+    });
+  });
+
+  return toCsv(rows);
+};
+
+export const downloadCsvFile = (csv: string, fileName: string) => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Lowercase without diacritics or extra spaces, for matching header names and keywords typed by hand:
+// "Tên Dịch Vụ", "ten dich vu" and "TÊN  DỊCH VỤ" all become "ten dich vu".
+export const normalizeCsvText = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/gi, 'd').toLowerCase().replace(/[_\s]+/g, ' ').trim();
+
+// Excel saves CSV with ';' in locales (such as Vietnamese) that use ',' as the decimal separator,
+// so the delimiter is taken from whichever appears more in the first line.
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  return (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+};
+
+// Parses CSV text into rows of cells (quoted cells may contain delimiters, quotes and line breaks).
+// Blank lines are dropped.
+export const parseCsv = (text: string): string[][] => {
+  const input = stripBom(text);
+  const delimiter = detectDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
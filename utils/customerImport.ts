@@ -0,0 +1,215 @@
+// Reads customers from a phone's contact export (.vcf) or a spreadsheet (.csv) and matches them
+// against the existing customer list, so duplicates can be skipped or merged before saving.
+
+import type { Customer } from '../types';
+import { parseCsv, normalizeCsvText, stripBom } from './csv';
+import { normalizePhone, canonicalPhone } from './phone';
+
+export interface ImportedContact {
+  name: string;
+  phone?: string;
+  dob?: string; // YYYY-MM-DD, as stored on Customer
+}
+
+export type CustomerImportStatus = 'new' | 'duplicate' | 'invalid';
+
+export interface CustomerImportRow {
+  key: string;
+  status: CustomerImportStatus;
+  contact: ImportedContact;
+  match?: Customer; // Existing customer this contact duplicates
+  matchedBy?: 'phone' | 'name';
+  merged?: Customer; // The existing customer with the contact's missing details filled in
+  error?: string;
+}
+
+export class CustomerImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomerImportError';
+  }
+}
+
+const NAME_HEADERS = ['ten', 'ten khach hang', 'ho ten', 'ho va ten', 'khach hang', 'name', 'full name'];
+const PHONE_HEADERS = ['so dien thoai', 'dien thoai', 'sdt', 'phone', 'mobile', 'tel'];
+const DOB_HEADERS = ['ngay sinh', 'sinh nhat', 'birthday', 'dob', 'date of birth'];
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+// Accepts YYYY-MM-DD, YYYYMMDD (vCard) and DD/MM/YYYY (how dates are written here).
+// Birthdays without a year ("--0315" in vCards) can't be stored and are dropped.
+export const parseBirthday = (value: string | undefined): string | undefined => {
+  const text = (value || '').trim();
+  let match = text.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : undefined;
+  }
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  if (match) {
+    const [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : undefined;
+  }
+  return undefined;
+};
+
+// vCard 2.1 exports (older Android phones) encode non-ASCII names as quoted-printable UTF-8.
+const decodeQuotedPrintable = (value: string): string => {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === '=' && /^[0-9A-F]{2}$/i.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i));
+    }
+  }
+  return new TextDecoder('utf-8').decode(new Uint8Array(bytes));
+};
+
+const unescapeVcfValue = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+export const parseVcf = (text: string): ImportedContact[] => {
+  // Unfold continuation lines: RFC folding (leading space) and quoted-printable soft breaks (trailing "=")
+  const lines = text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .replace(/=\n/g, '')
+    .split('\n');
+
+  const contacts: ImportedContact[] = [];
+  let current: { fn?: string; n?: string; phone?: string; bday?: string } | null = null;
+
+  lines.forEach(line => {
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex < 0) return;
+    const [property, ...params] = line.slice(0, separatorIndex).split(';');
+    const name = property.replace(/^item\d+\./i, '').toUpperCase();
+    let value = line.slice(separatorIndex + 1);
+
+    if (name === 'BEGIN' && value.trim().toUpperCase() === 'VCARD') {
+      current = {};
+      return;
+    }
+    if (!current) return;
+    if (name === 'END') {
+      const contactName = current.fn || current.n || '';
+      contacts.push({ name: contactName, phone: current.phone, dob: parseBirthday(current.bday) });
+      current = null;
+      return;
+    }
+
+    if (params.some(param => param.toUpperCase() === 'ENCODING=QUOTED-PRINTABLE')) {
+      value = decodeQuotedPrintable(value);
+    }
+    value = unescapeVcfValue(value);
+
+    if (name === 'FN' && value) {
+      current.fn = value;
+    } else if (name === 'N' && value) {
+      // N is "Family;Given;Middle;Prefix;Suffix"; Vietnamese names read family name first
+      const [family, given, middle] = value.split(';').map(part => part.trim());
+      current.n = [family, middle, given].filter(Boolean).join(' ');
+    } else if (name === 'TEL' && value && !current.phone) {
+      current.phone = value;
+    } else if (name === 'BDAY') {
+      current.bday = value;
+    }
+  });
+
+  return contacts;
+};
+
+export const parseCustomerCsv = (text: string): ImportedContact[] => {
+  const rows = parseCsv(text);
+  if (rows.length === 0) return [];
+  const header = rows[0].map(normalizeCsvText);
+  const nameIndex = header.findIndex(cell => NAME_HEADERS.includes(cell));
+  if (nameIndex < 0) throw new CustomerImportError('Không tìm thấy cột "Tên" ở dòng tiêu đề.');
+  const phoneIndex = header.findIndex(cell => PHONE_HEADERS.includes(cell));
+  const dobIndex = header.findIndex(cell => DOB_HEADERS.includes(cell));
+
+  return rows.slice(1).map(cells => ({
+    name: (cells[nameIndex] || '').trim(),
+    phone: phoneIndex >= 0 ? (cells[phoneIndex] || '').trim() || undefined : undefined,
+    dob: dobIndex >= 0 ? parseBirthday(cells[dobIndex]) : undefined,
+  }));
+};
+
+// Picks the parser by file extension (falling back to sniffing the content).
+export const parseContactsFile = (fileName: string, text: string): ImportedContact[] => {
+  const isVcf = /\.vcf$/i.test(fileName) || /^\s*BEGIN:VCARD/i.test(stripBom(text));
+  const contacts = isVcf ? parseVcf(text) : parseCustomerCsv(text);
+  return contacts.map(contact => (contact.phone ? { ...contact, phone: canonicalPhone(contact.phone) } : contact));
+};
+
+// Only fills in details the customer doesn't have yet; nothing already saved is overwritten.
+export const mergeContactInto = (customer: Customer, contact: ImportedContact): Customer => ({
+  ...customer,
+  phone: customer.phone || contact.phone,
+  dob: customer.dob || contact.dob,
+});
+
+const combineContacts = (a: ImportedContact, b: ImportedContact): ImportedContact => ({
+  name: a.name,
+  phone: a.phone || b.phone,
+  dob: a.dob || b.dob,
+});
+
+// A contact duplicates a customer when the normalized phone numbers are equal or, if either side has
+// no phone number, when the names are equal. Contacts repeated within the file are combined first.
+export const planCustomerImport = (contacts: ImportedContact[], customers: Customer[]): CustomerImportRow[] => {
+  const byPhone = new Map<string, Customer>();
+  const byName = new Map<string, Customer>();
+  customers.forEach(customer => {
+    const phone = normalizePhone(customer.phone);
+    if (phone) byPhone.set(phone, customer);
+    byName.set(normalizeName(customer.name), customer);
+  });
+
+  const unique: ImportedContact[] = [];
+  const invalid: CustomerImportRow[] = [];
+  const seenPhones = new Map<string, number>();
+  const seenNames = new Map<string, number>();
+  contacts.forEach((contact, index) => {
+    if (!contact.name.trim()) {
+      invalid.push({ key: `invalid-${index}`, status: 'invalid', contact, error: 'Thiếu tên khách hàng.' });
+      return;
+    }
+    const phone = normalizePhone(contact.phone);
+    const name = normalizeName(contact.name);
+    const previous = phone ? seenPhones.get(phone) : seenNames.get(name);
+    if (previous !== undefined) {
+      unique[previous] = combineContacts(unique[previous], contact);
+      return;
+    }
+    if (phone) seenPhones.set(phone, unique.length);
+    if (!seenNames.has(name)) seenNames.set(name, unique.length);
+    unique.push({ ...contact, name: contact.name.trim().replace(/\s+/g, ' ') });
+  });
+
+  const rows = unique.map((contact, index): CustomerImportRow => {
+    const key = `contact-${index}`;
+    const phone = normalizePhone(contact.phone);
+    const phoneMatch = phone ? byPhone.get(phone) : undefined;
+    const nameMatch = byName.get(normalizeName(contact.name));
+
+    if (phoneMatch) {
+      return { key, status: 'duplicate', contact, match: phoneMatch, matchedBy: 'phone', merged: mergeContactInto(phoneMatch, contact) };
+    }
+    if (nameMatch && (!phone || !normalizePhone(nameMatch.phone))) {
+      return { key, status: 'duplicate', contact, match: nameMatch, matchedBy: 'name', merged: mergeContactInto(nameMatch, contact) };
+    }
+    return { key, status: 'new', contact };
+  });
+
+  return [...rows, ...invalid];
+};
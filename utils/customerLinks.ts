@@ -0,0 +1,76 @@
+// Bills and bookings point at their customer profile through `customerId`. Records written
+// before the link existed (or typed in without picking a profile) only have a name, so every
+// lookup falls back to the name when it matches exactly one profile.
+
+import type { Bill, Customer } from '../types';
+
+export interface CustomerLinkGroup {
+  nameKey: string;
+  name: string;
+  candidates: Customer[]; // Every profile with this name
+  billIds: string[];
+  bookingIds: string[];
+}
+
+// Same comparison the customer list has always used for names.
+export const customerNameKey = (name: string) => name.trim().toLowerCase();
+
+const groupByName = (customers: Customer[]) => {
+  const byName = new Map<string, Customer[]>();
+  customers.forEach(customer => {
+    const key = customerNameKey(customer.name);
+    byName.set(key, [...(byName.get(key) || []), customer]);
+  });
+  return byName;
+};
+
+// The only profile with this name, if there is exactly one.
+export const findCustomerByName = (name: string, customers: Customer[]): Customer | undefined => {
+  const key = customerNameKey(name);
+  const matches = customers.filter(customer => customerNameKey(customer.name) === key);
+  return matches.length === 1 ? matches[0] : undefined;
+};
+
+export const findCustomerForRecord = (record: Pick<Bill, 'customerName' | 'customerId'>, customers: Customer[]): Customer | undefined =>
+  record.customerId
+    ? customers.find(customer => customer.id === record.customerId)
+    : findCustomerByName(record.customerName, customers);
+
+export const belongsToCustomer = (
+  record: Pick<Bill, 'customerName' | 'customerId'>,
+  customer: { id?: string; name: string },
+  customers: Customer[]
+): boolean => {
+  if (record.customerId) return record.customerId === customer.id;
+  if (customerNameKey(record.customerName) !== customerNameKey(customer.name)) return false;
+  // An unlinked record with a shared name can't be told apart, so it belongs to none of the profiles
+  return !customer.id || findCustomerByName(customer.name, customers)?.id === customer.id;
+};
+
+// Links every unlinked record whose name matches exactly one profile. Returns only the records that changed.
+export const linkRecordsByName = <T extends Bill>(records: T[], customers: Customer[]): T[] => {
+  const byName = groupByName(customers);
+  return records.flatMap(record => {
+    if (record.customerId) return [];
+    const matches = byName.get(customerNameKey(record.customerName)) || [];
+    return matches.length === 1 ? [{ ...record, customerId: matches[0].id }] : [];
+  });
+};
+
+// Unlinked records whose name is shared by several profiles, grouped by name, for the user to pick one.
+export const findAmbiguousLinks = (bills: Bill[], bookings: Bill[], customers: Customer[]): CustomerLinkGroup[] => {
+  const byName = groupByName(customers);
+  const groups = new Map<string, CustomerLinkGroup>();
+  const add = (record: Bill, kind: 'billIds' | 'bookingIds') => {
+    if (record.customerId) return;
+    const nameKey = customerNameKey(record.customerName);
+    const candidates = byName.get(nameKey) || [];
+    if (candidates.length < 2) return;
+    const group = groups.get(nameKey) || { nameKey, name: record.customerName.trim(), candidates, billIds: [], bookingIds: [] };
+    group[kind].push(record.id);
+    groups.set(nameKey, group);
+  };
+  bills.forEach(bill => add(bill, 'billIds'));
+  bookings.forEach(booking => add(booking, 'bookingIds'));
+  return Array.from(groups.values()).sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,143 @@
+// Finds customers that are probably the same person and combines their profiles. Names are typed
+// freely, so one regular can end up as "chị Hoa", "Hoa" and "hoa 0905" — each with their own
+// visits in the customer list.
+
+import { normalizePhone } from './phone';
+
+// A row of the customer list: a saved profile (with id) or a name that only appears on bills.
+export interface MergeCandidate {
+  id?: string;
+  name: string;
+  phone?: string;
+  dob?: string;
+}
+
+export type DuplicateReason = 'phone' | 'name';
+
+export interface DuplicateGroup<T extends MergeCandidate = MergeCandidate> {
+  members: T[];
+  reason: DuplicateReason; // 'phone' when any two members share a number
+}
+
+// Words people put in front of a name: "chị Hoa", "c. Hoa", "anh Tuấn"...
+const HONORIFICS = new Set(['chi', 'c', 'anh', 'a', 'em', 'e', 'co', 'chu', 'bac', 'di', 'ba', 'ong', 'be', 'ms', 'mr', 'mrs']);
+
+const stripDiacritics = (value: string) =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/đ/gi, 'd').toLowerCase();
+
+// "Chị Hoa 0905" -> "hoa"
+export const coreName = (name: string): string => {
+  const words = stripDiacritics(name).replace(/[^a-z\s]/g, ' ').split(/\s+/).filter(Boolean);
+  while (words.length > 1 && HONORIFICS.has(words[0])) words.shift();
+  return words.join(' ');
+};
+
+// A full phone number written into the name ("Hoa 0905 123 456") counts as the customer's phone.
+const effectivePhone = (candidate: MergeCandidate): string => {
+  const phone = normalizePhone(candidate.phone);
+  if (phone) return phone;
+  const inName = normalizePhone(candidate.name);
+  return inName.length >= 10 ? inName : '';
+};
+
+// Allows a single typo in longer names ("Hương" / "Huong" already match after stripping accents).
+const isWithinOneEdit = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  if (Math.abs(a.length - b.length) > 1 || Math.min(a.length, b.length) < 4) return false;
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { i++; j++; continue; }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (b.length > a.length) j++;
+    else { i++; j++; }
+  }
+  return edits + (a.length - i) + (b.length - j) <= 1;
+};
+
+// Keys that any two names within one edit of each other share: the name itself and, for names
+// long enough to allow a typo, the name with each letter left out in turn.
+const nameKeys = (name: string): string[] => {
+  if (!name) return [];
+  if (name.length < 4) return [name];
+  return Array.from(new Set([name, ...Array.from(name, (_, i) => name.slice(0, i) + name.slice(i + 1))]));
+};
+
+// Indexes of the candidates sharing each key.
+const bucketBy = (count: number, keysOf: (index: number) => string[]): number[][] => {
+  const buckets = new Map<string, number[]>();
+  for (let index = 0; index < count; index++) {
+    keysOf(index).forEach(key => {
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(index);
+    });
+  }
+  return Array.from(buckets.values()).filter(indexes => indexes.length > 1);
+};
+
+// Groups candidates that share a phone number or have near-identical names. Members that are
+// linked through a third one end up in the same group, but a group never holds two different
+// numbers: those are two different people, whatever the names say. Groups with a shared phone
+// come first.
+export const suggestDuplicateGroups = <T extends MergeCandidate>(candidates: T[]): DuplicateGroup<T>[] => {
+  // Normalized once; only candidates sharing a phone or name key are compared
+  const phones = candidates.map(effectivePhone);
+  const names = candidates.map(candidate => coreName(candidate.name));
+
+  const parent = candidates.map((_, index) => index);
+  const groupPhone = [...phones]; // The group's number, kept on its root
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (i: number, j: number) => {
+    const a = find(i);
+    const b = find(j);
+    if (a === b || (groupPhone[a] && groupPhone[b] && groupPhone[a] !== groupPhone[b])) return;
+    parent[a] = b;
+    groupPhone[b] = groupPhone[b] || groupPhone[a];
+  };
+
+  // Shared numbers first, so a name match can't pull a member into another number's group
+  const byPhone = new Set<number>();
+  bucketBy(candidates.length, index => (phones[index] ? [phones[index]] : [])).forEach(indexes => {
+    indexes.forEach(index => {
+      union(indexes[0], index);
+      byPhone.add(index);
+    });
+  });
+
+  bucketBy(candidates.length, index => nameKeys(names[index])).forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        if (isWithinOneEdit(names[indexes[i]], names[indexes[j]])) union(indexes[i], indexes[j]);
+      }
+    }
+  });
+
+  const groups = new Map<number, number[]>();
+  candidates.forEach((_, index) => {
+    const root = find(index);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(index);
+  });
+
+  return Array.from(groups.values())
+    .filter(indexes => indexes.length > 1)
+    .map(indexes => ({
+      members: indexes.map(index => candidates[index]),
+      reason: (indexes.some(index => byPhone.has(index)) ? 'phone' : 'name') as DuplicateReason,
+    }))
+    .sort((a, b) => (a.reason === b.reason ? 0 : a.reason === 'phone' ? -1 : 1));
+};
+
+// Distinct non-empty values of a field across the members, the survivor's own value first.
+export const fieldOptions = (members: MergeCandidate[], survivor: MergeCandidate, field: 'phone' | 'dob'): string[] => {
+  const values = [survivor, ...members].map(member => (member[field] || '').trim()).filter(Boolean);
+  const seen = new Set<string>();
+  return values.filter(value => {
+    const key = field === 'phone' ? normalizePhone(value) : value;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
@@ -0,0 +1,456 @@
+import type { Bill, Booking, Customer, PredefinedService, ServiceCategory, ShopSettings, DataSet, SyncChange, SyncVersion, Technician } from '../types';
+import { CURRENT_SCHEMA_VERSION, migrateDataSet } from './schema';
+import { broadcastChange } from './broadcast';
+
+const DB_NAME = 'nailSpaDB';
+const DB_VERSION = 6;
+
+// Keys used by the old localStorage persistence, migrated once into IndexedDB.
+const LEGACY_KEYS = {
+  bills: 'nailSpaBills',
+  bookings: 'nailSpaBookings',
+  customers: 'nailSpaCustomers',
+  services: 'nailSpaServices',
+  categories: 'nailSpaCategories',
+  shopSettings: 'nailSpaShopSettings',
+};
+
+export type RecordStoreName = 'bills' | 'bookings' | 'customers' | 'services';
+
+const RECORD_STORES: RecordStoreName[] = ['bills', 'bookings', 'customers', 'services'];
+
+// Stores that hold copies of the data rather than live records; not touched by schema migrations.
+export type AuxiliaryStoreName = 'snapshots' | 'snapshotData' | 'trash' | 'auditLog' | 'syncOutbox' | 'billArchive';
+
+export type StoreName = RecordStoreName | AuxiliaryStoreName;
+
+// Small key-value store for data that is read and written as a whole (categories order, settings, flags).
+export const META_STORE = 'meta';
+
+export const META_KEYS = {
+  categories: 'categories',
+  staff: 'staff',
+  shopSettings: 'shopSettings',
+  servicesInitialized: 'servicesInitialized',
+  schemaVersion: 'schemaVersion',
+  snapshotRetentionDays: 'snapshotRetentionDays',
+  trashRetentionDays: 'trashRetentionDays',
+  syncConfig: 'syncConfig',
+  archiveSummary: 'archiveSummary',
+};
+
+// Meta entries that are shared between devices by the sync engine; the rest are per device.
+const SYNCED_META_KEYS = [META_KEYS.categories, META_KEYS.staff, META_KEYS.shopSettings];
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const readLegacyJSON = (key: string): any => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : undefined;
+  } catch (error) {
+    console.error(`Error reading legacy key ${key} from localStorage`, error);
+    return undefined;
+  }
+};
+
+// Copies the old nailSpa* localStorage keys into the freshly created stores.
+// Runs inside the upgrade transaction, so either everything is migrated or nothing is.
+const migrateFromLocalStorage = (tx: IDBTransaction): boolean => {
+  let migrated = false;
+
+  RECORD_STORES.forEach(storeName => {
+    const records = readLegacyJSON(LEGACY_KEYS[storeName]);
+    if (Array.isArray(records)) {
+      const store = tx.objectStore(storeName);
+      records.forEach(record => {
+        if (record && record.id) store.put(record);
+      });
+      migrated = true;
+    }
+  });
+
+  const meta = tx.objectStore(META_STORE);
+  if (localStorage.getItem(LEGACY_KEYS.services) !== null) {
+    meta.put(true, META_KEYS.servicesInitialized);
+  }
+
+  const categories = readLegacyJSON(LEGACY_KEYS.categories);
+  if (Array.isArray(categories)) {
+    meta.put(categories, META_KEYS.categories);
+    migrated = true;
+  }
+
+  const settings = readLegacyJSON(LEGACY_KEYS.shopSettings);
+  if (settings && typeof settings === 'object') {
+    meta.put(settings, META_KEYS.shopSettings);
+    migrated = true;
+  }
+
+  return migrated;
+};
+
+// Upgrades the stored records to CURRENT_SCHEMA_VERSION in a single transaction.
+// Data without a stored version predates versioning and is treated as version 1.
+const runSchemaMigrations = async (db: IDBDatabase): Promise<void> => {
+  const tx = db.transaction([...RECORD_STORES, META_STORE], 'readwrite');
+  const meta = tx.objectStore(META_STORE);
+  const storedVersion = (await requestToPromise<number | undefined>(meta.get(META_KEYS.schemaVersion))) ?? 1;
+
+  if (storedVersion >= CURRENT_SCHEMA_VERSION) {
+    await transactionDone(tx);
+    return;
+  }
+
+  const [bills, bookings, customers, services, categories, settings] = await Promise.all([
+    requestToPromise<Bill[]>(tx.objectStore('bills').getAll()),
+    requestToPromise<Booking[]>(tx.objectStore('bookings').getAll()),
+    requestToPromise<Customer[]>(tx.objectStore('customers').getAll()),
+    requestToPromise<PredefinedService[]>(tx.objectStore('services').getAll()),
+    requestToPromise<ServiceCategory[] | undefined>(meta.get(META_KEYS.categories)),
+    requestToPromise<Partial<ShopSettings> | undefined>(meta.get(META_KEYS.shopSettings)),
+  ]);
+
+  const migrated = migrateDataSet({ bills, bookings, customers, services, categories: categories || [], settings }, storedVersion);
+
+  RECORD_STORES.forEach(storeName => {
+    const store = tx.objectStore(storeName);
+    store.clear();
+    (migrated[storeName] as { id: string }[]).forEach(record => store.put(record));
+  });
+  if (categories) meta.put(migrated.categories, META_KEYS.categories);
+  if (settings) meta.put(migrated.settings, META_KEYS.shopSettings);
+  meta.put(CURRENT_SCHEMA_VERSION, META_KEYS.schemaVersion);
+
+  await transactionDone(tx);
+};
+
+// --- Sync change tracking ---
+// While sync is enabled, every write to a record store (or a shared meta entry) also queues
+// a SyncChange in the outbox, in the same transaction as the write itself.
+
+let syncDeviceId: string | null = null;
+let syncClock = 0;
+
+// Called by the sync engine when sync is switched on or off; null stops queueing changes.
+export const setSyncDeviceId = (deviceId: string | null) => {
+  syncDeviceId = deviceId;
+};
+
+// Moves the clock past versions received from other devices, so later local edits win over them.
+export const observeSyncClock = (ts: number) => {
+  syncClock = Math.max(syncClock, ts);
+};
+
+const nextSyncVersion = (deviceId: string): SyncVersion => {
+  syncClock = Math.max(Date.now(), syncClock + 1);
+  return { ts: syncClock, deviceId };
+};
+
+const isSyncedStore = (storeName: string) =>
+  storeName === META_STORE || (RECORD_STORES as string[]).includes(storeName);
+
+const queueChange = (tx: IDBTransaction, deviceId: string, store: SyncChange['store'], id: string, record: unknown) => {
+  const change: SyncChange = {
+    key: `${store}:${id}`,
+    store,
+    id,
+    deleted: record === undefined,
+    record,
+    version: nextSyncVersion(deviceId),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  };
+  tx.objectStore('syncOutbox').put(change);
+};
+
+// Opens a readwrite transaction, adding the outbox to its scope while sync is enabled.
+// Returns the device id to queue changes under (null when not tracking).
+const openTrackedTransaction = (db: IDBDatabase, storeNames: string[]) => {
+  const deviceId = syncDeviceId;
+  const tracked = deviceId !== null && storeNames.some(isSyncedStore);
+  const scope = tracked ? Array.from(new Set([...storeNames, 'syncOutbox'])) : storeNames;
+  return { tx: db.transaction(scope, 'readwrite'), deviceId: tracked ? deviceId : null };
+};
+
+// Writes to record stores that are queued for sync. Use instead of store.put/delete on record stores.
+export interface RecordWriter {
+  put: (storeName: RecordStoreName, record: { id: string }) => void;
+  delete: (storeName: RecordStoreName, id: string) => void;
+}
+
+const createRecordWriter = (tx: IDBTransaction, deviceId: string | null): RecordWriter => ({
+  put: (storeName, record) => {
+    tx.objectStore(storeName).put(record);
+    if (deviceId) queueChange(tx, deviceId, storeName, record.id, record);
+  },
+  delete: (storeName, id) => {
+    tx.objectStore(storeName).delete(id);
+    if (deviceId) queueChange(tx, deviceId, storeName, id, undefined);
+  },
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    let migratedLegacyData = false;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction as IDBTransaction;
+
+      if (event.oldVersion < 1) {
+        const bills = db.createObjectStore('bills', { keyPath: 'id' });
+        bills.createIndex('date', 'date');
+        bills.createIndex('customerName', 'customerName');
+
+        const bookings = db.createObjectStore('bookings', { keyPath: 'id' });
+        bookings.createIndex('date', 'date');
+        bookings.createIndex('customerName', 'customerName');
+
+        const customers = db.createObjectStore('customers', { keyPath: 'id' });
+        customers.createIndex('name', 'name');
+
+        db.createObjectStore('services', { keyPath: 'id' });
+        db.createObjectStore(META_STORE);
+
+        migratedLegacyData = migrateFromLocalStorage(tx);
+      }
+
+      if (event.oldVersion < 2) {
+        // Daily snapshots: small summaries for listing, full data stored separately
+        db.createObjectStore('snapshots', { keyPath: 'id' });
+        db.createObjectStore('snapshotData', { keyPath: 'id' });
+      }
+
+      if (event.oldVersion < 3) {
+        // Soft-deleted bills, bookings and customers
+        const trash = db.createObjectStore('trash', { keyPath: 'id' });
+        trash.createIndex('deletedAt', 'deletedAt');
+      }
+
+      if (event.oldVersion < 4) {
+        // Create/update/delete history of bills and bookings
+        const auditLog = db.createObjectStore('auditLog', { keyPath: 'id' });
+        auditLog.createIndex('recordId', 'recordId');
+      }
+
+      if (event.oldVersion < 5) {
+        // Local changes waiting to be pushed to the sync server, one entry per record
+        db.createObjectStore('syncOutbox', { keyPath: 'key' });
+      }
+
+      if (event.oldVersion < 6) {
+        // Old bills moved out of the bills store, grouped by month
+        db.createObjectStore('billArchive', { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // The upgrade transaction has committed at this point, so the old keys are safe to drop.
+      if (migratedLegacyData) {
+        Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+      }
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => reject(request.error);
+  });
+
+  dbPromise = opening.then(async db => {
+    await runSchemaMigrations(db);
+    // Start queueing changes before the first write if sync was left enabled
+    const tx = db.transaction(META_STORE, 'readonly');
+    const syncConfig = await requestToPromise<{ enabled?: boolean; deviceId?: string } | undefined>(
+      tx.objectStore(META_STORE).get(META_KEYS.syncConfig)
+    );
+    if (syncConfig?.enabled && syncConfig.deviceId) setSyncDeviceId(syncConfig.deviceId);
+    return db;
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+
+  return dbPromise;
+};
+
+export interface Repository<T extends { id: string }> {
+  get: (id: string) => Promise<T | undefined>;
+  getAll: () => Promise<T[]>;
+  getAllByIndex: (indexName: string, query: IDBValidKey | IDBKeyRange) => Promise<T[]>;
+  put: (record: T) => Promise<void>;
+  putMany: (records: T[]) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  replaceAll: (records: T[]) => Promise<void>;
+}
+
+export const createRepository = <T extends { id: string }>(storeName: StoreName): Repository<T> => {
+  const read = async <R>(run: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readonly');
+    return requestToPromise(run(tx.objectStore(storeName)));
+  };
+
+  // Record stores go through a RecordWriter so the change is queued for sync; other stores are written directly.
+  const write = async (run: (put: (record: T) => void, remove: (id: string) => void, store: IDBObjectStore) => void) => {
+    const db = await openDatabase();
+    const { tx, deviceId } = openTrackedTransaction(db, [storeName]);
+    const store = tx.objectStore(storeName);
+    if (isSyncedStore(storeName)) {
+      const writer = createRecordWriter(tx, deviceId);
+      run(record => writer.put(storeName as RecordStoreName, record), id => writer.delete(storeName as RecordStoreName, id), store);
+    } else {
+      run(record => store.put(record), id => store.delete(id), store);
+    }
+    await transactionDone(tx);
+    broadcastChange([storeName]);
+  };
+
+  return {
+    get: (id) => read<T | undefined>(store => store.get(id)),
+    getAll: async () => (await read<T[]>(store => store.getAll())) || [],
+    getAllByIndex: async (indexName, query) =>
+      (await read<T[]>(store => store.index(indexName).getAll(query))) || [],
+    put: (record) => write(put => put(record)),
+    putMany: (records) => write(put => records.forEach(put)),
+    remove: (id) => write((_, remove) => remove(id)),
+    // Records missing from the new list are removed one by one (rather than clearing the store) so the
+    // deletions are synced too.
+    replaceAll: (records) => write((put, remove, store) => {
+      const keep = new Set(records.map(record => record.id));
+      const request = store.getAllKeys();
+      request.onsuccess = () => {
+        (request.result as string[]).forEach(id => {
+          if (!keep.has(id)) remove(id);
+        });
+        records.forEach(put);
+      };
+    }),
+  };
+};
+
+// Runs `run` in one transaction over several stores and resolves once it commits,
+// for writes that must not be half applied (e.g. moving records into the trash).
+// Record stores must be written through `writer` so the changes are synced.
+export const runTransaction = async (
+  storeNames: (StoreName | typeof META_STORE)[],
+  run: (tx: IDBTransaction, writer: RecordWriter) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const { tx, deviceId } = openTrackedTransaction(db, storeNames);
+  run(tx, createRecordWriter(tx, deviceId));
+  await transactionDone(tx);
+  broadcastChange(storeNames);
+};
+
+export const billsRepository = createRepository<Bill>('bills');
+export const bookingsRepository = createRepository<Booking>('bookings');
+export const customersRepository = createRepository<Customer>('customers');
+export const servicesRepository = createRepository<PredefinedService>('services');
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const value = await requestToPromise<T | undefined>(tx.objectStore(META_STORE).get(key));
+  return value;
+};
+
+// Only the shared entries (categories, staff, settings) are queued for sync.
+const openMetaTransaction = (db: IDBDatabase, key: string) =>
+  SYNCED_META_KEYS.includes(key)
+    ? openTrackedTransaction(db, [META_STORE])
+    : { tx: db.transaction(META_STORE, 'readwrite'), deviceId: null };
+
+export const setMeta = async <T>(key: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  const { tx, deviceId } = openMetaTransaction(db, key);
+  tx.objectStore(META_STORE).put(value, key);
+  if (deviceId) queueChange(tx, deviceId, META_STORE, key, value);
+  await transactionDone(tx);
+  broadcastChange([key]);
+};
+
+export const deleteMeta = async (key: string): Promise<void> => {
+  const db = await openDatabase();
+  const { tx, deviceId } = openMetaTransaction(db, key);
+  tx.objectStore(META_STORE).delete(key);
+  if (deviceId) queueChange(tx, deviceId, META_STORE, key, undefined);
+  await transactionDone(tx);
+  broadcastChange([key]);
+};
+
+// Read-modify-write in a single transaction so concurrent partial updates don't overwrite each other.
+export const updateMeta = async <T>(key: string, updater: (current: T | undefined) => T): Promise<T> => {
+  const db = await openDatabase();
+  const { tx, deviceId } = openMetaTransaction(db, key);
+  const store = tx.objectStore(META_STORE);
+  const current = await requestToPromise<T | undefined>(store.get(key));
+  const next = updater(current);
+  store.put(next, key);
+  if (deviceId) queueChange(tx, deviceId, META_STORE, key, next);
+  await transactionDone(tx);
+  broadcastChange([key]);
+  return next;
+};
+
+// Queues every record and shared meta entry, for the first sync of a device that already has data.
+// `archivedBills` are queued as bills too, so archiving here doesn't keep them from other devices.
+export const queueAllForSync = async (archivedBills: Bill[] = []): Promise<void> => {
+  const db = await openDatabase();
+  const { tx, deviceId } = openTrackedTransaction(db, [...RECORD_STORES, META_STORE]);
+  if (!deviceId) return;
+  archivedBills.forEach(bill => queueChange(tx, deviceId, 'bills', bill.id, bill));
+  RECORD_STORES.forEach(storeName => {
+    const request = tx.objectStore(storeName).getAll();
+    request.onsuccess = () => {
+      (request.result as { id: string }[]).forEach(record => queueChange(tx, deviceId, storeName, record.id, record));
+    };
+  });
+  SYNCED_META_KEYS.forEach(key => {
+    const request = tx.objectStore(META_STORE).get(key);
+    request.onsuccess = () => {
+      if (request.result !== undefined) queueChange(tx, deviceId, META_STORE, key, request.result);
+    };
+  });
+  await transactionDone(tx);
+};
+
+// Reads every store at once, e.g. for backups.
+export const readDataSet = async (): Promise<DataSet> => {
+  const [bills, bookings, customers, services, categories, staff, settings] = await Promise.all([
+    billsRepository.getAll(),
+    bookingsRepository.getAll(),
+    customersRepository.getAll(),
+    servicesRepository.getAll(),
+    getMeta<ServiceCategory[]>(META_KEYS.categories),
+    getMeta<Technician[]>(META_KEYS.staff),
+    getMeta<Partial<ShopSettings>>(META_KEYS.shopSettings),
+  ]);
+  return { bills, bookings, customers, services, categories: categories || [], staff, settings };
+};
+
+// Write failures used to be swallowed; surface them so the user knows data was not saved.
+export const reportStorageError = (context: string, error: unknown) => {
+  console.error(context, error);
+  const isQuotaError = error instanceof DOMException && error.name === 'QuotaExceededError';
+  alert(isQuotaError
+    ? 'Bộ nhớ trình duyệt đã đầy, dữ liệu chưa được lưu. Vui lòng sao lưu và dọn bớt dữ liệu cũ.'
+    : 'Đã xảy ra lỗi khi lưu dữ liệu. Vui lòng thử lại.');
+};
@@ -0,0 +1,82 @@
+import type { Bill, ItemAdjustment, ServiceItem } from '../types';
+import { formatCurrency } from './dateUtils';
+
+export const ITEM_ADJUSTMENT_LABELS: Record<ItemAdjustment['type'], string> = {
+  percent: 'Giảm %',
+  amount: 'Giảm tiền',
+  override: 'Giá mới',
+};
+
+// Offered as suggestions; any other reason can be typed
+export const SUGGESTED_ADJUSTMENT_REASONS = ['Khách quen', 'Làm lại', 'Khuyến mãi', 'Sinh nhật', 'Lỗi dịch vụ'];
+
+// The line price after an adjustment. An override replaces the unit price so it follows the
+// quantity; percent discounts are rounded to whole đồng like the bill discount. Never below 0.
+export const applyItemAdjustment = (listPrice: number, quantity: number, adjustment?: ItemAdjustment): number => {
+  if (!adjustment) return listPrice;
+  switch (adjustment.type) {
+    case 'percent':
+      return Math.max(0, listPrice - Math.round(listPrice * (adjustment.value / 100)));
+    case 'amount':
+      return Math.max(0, listPrice - adjustment.value);
+    default:
+      return Math.max(0, adjustment.value * quantity);
+  }
+};
+
+// Prices an item from its list price (unit price × quantity), keeping any adjustment it has.
+export const priceItem = (item: ServiceItem, listPrice: number): ServiceItem =>
+  item.adjustment
+    ? { ...item, listPrice, price: applyItemAdjustment(listPrice, item.quantity, item.adjustment) }
+    : { ...item, listPrice: undefined, price: listPrice };
+
+export const getItemListPrice = (item: ServiceItem): number => item.listPrice ?? item.price;
+
+// Negative when an override raised the price
+export const getItemDiscount = (item: ServiceItem): number => getItemListPrice(item) - item.price;
+
+// "Khách quen: −20.000 ₫", shown under the item on the receipt
+export const describeItemAdjustment = (item: ServiceItem): string | null => {
+  if (!item.adjustment) return null;
+  const discount = getItemDiscount(item);
+  const amount = discount >= 0 ? `−${formatCurrency(discount)}` : `+${formatCurrency(-discount)}`;
+  return `${item.adjustment.reason}: ${amount}`;
+};
+
+// Item prices already include their own adjustments; the bill discount comes off this.
+export const getBillSubtotal = (bill: Pick<Bill, 'items'>): number =>
+  bill.items.reduce((sum, item) => sum + item.price, 0);
+
+export const getBillDiscount = (bill: Bill): number => Math.max(0, getBillSubtotal(bill) - bill.total);
+
+export interface DiscountReasonTotal {
+  reason: string;
+  amount: number;
+  itemCount: number;
+}
+
+export interface DiscountReport {
+  byReason: DiscountReasonTotal[]; // Line adjustments by reason, largest first
+  itemDiscount: number; // Sum of the above
+  billDiscount: number; // Bill-level discounts, which have no reason
+  total: number;
+}
+
+export const summarizeDiscounts = (bills: Bill[]): DiscountReport => {
+  const byReason = new Map<string, DiscountReasonTotal>();
+  let billDiscount = 0;
+  bills.forEach(bill => {
+    bill.items.forEach(item => {
+      if (!item.adjustment) return;
+      const reason = item.adjustment.reason.trim();
+      const entry = byReason.get(reason.toLowerCase()) || { reason, amount: 0, itemCount: 0 };
+      entry.amount += getItemDiscount(item);
+      entry.itemCount += 1;
+      byReason.set(reason.toLowerCase(), entry);
+    });
+    billDiscount += getBillDiscount(bill);
+  });
+  const reasons = Array.from(byReason.values()).sort((a, b) => b.amount - a.amount);
+  const itemDiscount = reasons.reduce((sum, entry) => sum + entry.amount, 0);
+  return { byReason: reasons, itemDiscount, billDiscount, total: itemDiscount + billDiscount };
+};
@@ -0,0 +1,174 @@
+// Scans the stored data for inconsistencies that can build up over time and repairs them.
+// Every repair re-reads the stores first, so it fixes what is wrong now rather than what the
+// last scan saw.
+
+import type { Bill, Booking, Customer, PredefinedService, ServiceCategory } from '../types';
+import {
+  billsRepository, bookingsRepository, customersRepository, servicesRepository, getMeta, META_KEYS
+} from './db';
+import { saveManyWithAudit } from './audit';
+import { moveToTrash } from './trash';
+import { notifyChange } from './broadcast';
+import { formatCurrency, formatDateTime } from './dateUtils';
+import { getBillSubtotal } from './discounts';
+import { sumPayments } from './payments';
+
+export type IntegrityCheck = 'orphanedCategory' | 'billTotalMismatch' | 'staleBooking' | 'customerNameMismatch';
+
+export const INTEGRITY_CHECKS: IntegrityCheck[] = ['orphanedCategory', 'billTotalMismatch', 'staleBooking', 'customerNameMismatch'];
+
+export interface IntegrityIssue {
+  recordId: string;
+  title: string;
+  detail: string;
+  needsReview?: boolean; // Left alone by the repair; has to be fixed by hand
+}
+
+export interface IntegrityReport {
+  checkedAt: string;
+  issues: Record<IntegrityCheck, IntegrityIssue[]>;
+}
+
+// Bookings whose time passed this long ago without being turned into a bill are considered abandoned.
+export const STALE_BOOKING_DAYS = 30;
+
+interface StoredData {
+  bills: Bill[];
+  bookings: Booking[];
+  customers: Customer[];
+  services: PredefinedService[];
+  categories?: ServiceCategory[]; // Not saved yet on a fresh install
+}
+
+const loadData = async (): Promise<StoredData> => {
+  const [bills, bookings, customers, services, categories] = await Promise.all([
+    billsRepository.getAll(),
+    bookingsRepository.getAll(),
+    customersRepository.getAll(),
+    servicesRepository.getAll(),
+    getMeta<ServiceCategory[]>(META_KEYS.categories),
+  ]);
+  return { bills, bookings, customers, services, categories };
+};
+
+// Same rule as the bill editor: item prices are line totals that already include their own
+// adjustments, percent discounts are rounded to whole đồng, totals never go below 0.
+export const calculateBillTotal = (bill: Bill): number => {
+  const subtotal = getBillSubtotal(bill);
+  const discountValue = bill.discountValue || 0;
+  const discount = bill.discountType === 'percent' ? Math.round(subtotal * (discountValue / 100)) : discountValue;
+  return Math.max(0, subtotal - discount);
+};
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// --- Finders: each returns the records to repair ---
+
+const findOrphanedServices = ({ services, categories }: StoredData) => {
+  if (!categories) return [];
+  const categoryIds = new Set(categories.map(category => category.id));
+  return services.filter(service => service.categoryId && !categoryIds.has(service.categoryId));
+};
+
+const findTotalMismatches = ({ bills }: StoredData) =>
+  bills.filter(bill => bill.total !== calculateBillTotal(bill));
+
+// There is no telling which method a changed total should come off, so these are left to the user
+const hasSplitPayment = (bill: Bill) => new Set((bill.payments || []).map(payment => payment.method)).size > 1;
+
+// The bill with its recalculated total. Payments made one way move by the same amount, so they
+// keep covering the bill as they did before.
+const withRecalculatedTotal = (bill: Bill): Bill => {
+  const total = calculateBillTotal(bill);
+  if (!bill.payments || bill.payments.length === 0) return { ...bill, total };
+  const amount = Math.max(0, sumPayments(bill.payments) + total - bill.total);
+  return { ...bill, total, payments: [{ method: bill.payments[0].method, amount }] };
+};
+
+const findStaleBookings = ({ bookings }: StoredData) => {
+  const cutoff = Date.now() - STALE_BOOKING_DAYS * 24 * 60 * 60 * 1000;
+  return bookings.filter(booking => new Date(booking.date).getTime() < cutoff);
+};
+
+// Bills whose name matches exactly one customer once case and spacing are ignored, but not as written.
+// Names shared by several customers are left alone, since there is no way to tell which one is meant.
+const findNameMismatches = ({ bills, customers }: StoredData) => {
+  const customersByName = new Map<string, Customer[]>();
+  customers.forEach(customer => {
+    const key = normalizeName(customer.name);
+    customersByName.set(key, [...(customersByName.get(key) || []), customer]);
+  });
+  return bills.flatMap(bill => {
+    // Linked bills keep the name they were written with, even after the profile is renamed
+    if (bill.customerId) return [];
+    const matches = customersByName.get(normalizeName(bill.customerName)) || [];
+    if (matches.length !== 1 || matches[0].name === bill.customerName) return [];
+    return [{ bill, customer: matches[0] }];
+  });
+};
+
+export const scanIntegrity = async (): Promise<IntegrityReport> => {
+  const data = await loadData();
+
+  return {
+    checkedAt: new Date().toISOString(),
+    issues: {
+      orphanedCategory: findOrphanedServices(data).map(service => ({
+        recordId: service.id,
+        title: service.name,
+        detail: 'Thuộc loại dịch vụ đã bị xóa',
+      })),
+      billTotalMismatch: findTotalMismatches(data).map(bill => ({
+        recordId: bill.id,
+        title: `${bill.customerName} · ${formatDateTime(bill.date)}`,
+        detail: `Đã lưu ${formatCurrency(bill.total)}, tính lại được ${formatCurrency(calculateBillTotal(bill))}`
+          + (hasSplitPayment(bill) ? ' · Thanh toán nhiều hình thức, cần sửa trong hóa đơn' : ''),
+        needsReview: hasSplitPayment(bill),
+      })),
+      staleBooking: findStaleBookings(data).map(booking => ({
+        recordId: booking.id,
+        title: booking.customerName,
+        detail: `Lịch hẹn ngày ${formatDateTime(booking.date)}`,
+      })),
+      customerNameMismatch: findNameMismatches(data).map(({ bill, customer }) => ({
+        recordId: bill.id,
+        title: `"${bill.customerName}" → "${customer.name}"`,
+        detail: `Hóa đơn ngày ${formatDateTime(bill.date)}`,
+      })),
+    },
+  };
+};
+
+// Returns how many records were repaired.
+export const repairIntegrity = async (check: IntegrityCheck): Promise<number> => {
+  const data = await loadData();
+
+  switch (check) {
+    case 'orphanedCategory': {
+      // Services move to "Khác" (no category), where they can be reassigned by hand
+      const services = findOrphanedServices(data).map(service => ({ ...service, categoryId: '' }));
+      await servicesRepository.putMany(services);
+      notifyChange(['services']);
+      return services.length;
+    }
+    case 'billTotalMismatch': {
+      const bills = findTotalMismatches(data).filter(bill => !hasSplitPayment(bill)).map(withRecalculatedTotal);
+      await saveManyWithAudit('bills', bills);
+      notifyChange(['bills', 'auditLog']);
+      return bills.length;
+    }
+    case 'staleBooking': {
+      // To the trash rather than deleted, each on its own so they can be restored one by one
+      const ids = findStaleBookings(data).map(booking => booking.id);
+      await Promise.all(ids.map(id => moveToTrash('bookings', [id])));
+      notifyChange(['bookings', 'trash', 'auditLog']);
+      return ids.length;
+    }
+    case 'customerNameMismatch': {
+      const bills = findNameMismatches(data).map(({ bill, customer }) => ({ ...bill, customerName: customer.name, customerId: customer.id }));
+      await saveManyWithAudit('bills', bills);
+      notifyChange(['bills', 'auditLog']);
+      return bills.length;
+    }
+  }
+};
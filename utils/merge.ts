@@ -0,0 +1,183 @@
+import type { Bill, Booking, Customer, PredefinedService, ServiceCategory, DataSet, Technician } from '../types';
+
+export type MergeEntity = 'bills' | 'bookings' | 'customers' | 'services';
+
+export const MERGE_ENTITIES: MergeEntity[] = ['bills', 'bookings', 'customers', 'services'];
+
+export type ConflictResolution = 'local' | 'incoming';
+
+export interface ChangedRecord<T> {
+  local: T;
+  merged: T;
+  fields: string[]; // Fields filled in from the backup
+}
+
+export interface ConflictRecord<T> {
+  local: T;
+  incoming: T;
+  fields: string[]; // Fields where both sides have different values
+}
+
+export interface EntityMergePlan<T> {
+  added: T[];
+  trashed: T[]; // Deleted here and still in the trash; left out of the merge
+  changed: ChangedRecord<T>[];
+  conflicts: ConflictRecord<T>[];
+  unchangedCount: number;
+}
+
+export interface MergePlan {
+  bills: EntityMergePlan<Bill>;
+  bookings: EntityMergePlan<Booking>;
+  customers: EntityMergePlan<Customer>;
+  services: EntityMergePlan<PredefinedService>;
+  addedCategories: ServiceCategory[];
+  addedStaff: Technician[];
+}
+
+// Key used to look up the user's choice for a single conflict.
+export const conflictKey = (entity: MergeEntity, id: string) => `${entity}:${id}`;
+
+const isEmptyValue = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+// Order-insensitive for object keys, so records that only differ in key order compare equal.
+const isEqualValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqualValue(item, b[i]));
+  }
+  const aObj = a as Record<string, unknown>;
+  const bObj = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aObj), ...Object.keys(bObj)]);
+  return [...keys].every(key => isEqualValue(aObj[key], bObj[key]));
+};
+
+// Field-level comparison of two versions of the same record.
+// A field that is empty on one side is simply filled in from the other; it only
+// counts as a conflict when both sides hold different, non-empty values.
+const compareRecords = <T extends { id: string }>(local: T, incoming: T) => {
+  const localObj = local as unknown as Record<string, unknown>;
+  const incomingObj = incoming as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(localObj), ...Object.keys(incomingObj)]);
+  const merged: Record<string, unknown> = { ...localObj };
+  const filledFields: string[] = [];
+  const conflictFields: string[] = [];
+
+  keys.forEach(key => {
+    const localValue = localObj[key];
+    const incomingValue = incomingObj[key];
+    if (isEqualValue(localValue, incomingValue)) return;
+    if (isEmptyValue(incomingValue)) return;
+    if (isEmptyValue(localValue)) {
+      merged[key] = incomingValue;
+      filledFields.push(key);
+      return;
+    }
+    conflictFields.push(key);
+  });
+
+  return { merged: merged as unknown as T, filledFields, conflictFields };
+};
+
+const planEntity = <T extends { id: string }>(
+  entity: MergeEntity,
+  localList: T[],
+  incomingList: T[],
+  trashedKeys: Set<string>
+): EntityMergePlan<T> => {
+  const localById = new Map(localList.map(record => [record.id, record]));
+  const plan: EntityMergePlan<T> = { added: [], trashed: [], changed: [], conflicts: [], unchangedCount: 0 };
+
+  incomingList.forEach(incoming => {
+    const local = localById.get(incoming.id);
+    if (!local) {
+      // Deleted on purpose here; it stays deleted unless restored from the trash
+      if (trashedKeys.has(conflictKey(entity, incoming.id))) {
+        plan.trashed.push(incoming);
+      } else {
+        plan.added.push(incoming);
+      }
+      return;
+    }
+    const { merged, filledFields, conflictFields } = compareRecords(local, incoming);
+    if (conflictFields.length > 0) {
+      plan.conflicts.push({ local, incoming, fields: conflictFields });
+    } else if (filledFields.length > 0) {
+      plan.changed.push({ local, merged, fields: filledFields });
+    } else {
+      plan.unchangedCount++;
+    }
+  });
+
+  return plan;
+};
+
+// What else this device holds besides the live records.
+export interface LocalMergeContext {
+  archivedBills?: Bill[]; // Compared too, so a backup's old bills don't come back as new copies
+  trashedKeys?: Set<string>; // Trash entry ids (`${entity}:${id}`, same as conflictKey)
+}
+
+export const planMerge = (current: DataSet, incoming: DataSet, { archivedBills = [], trashedKeys = new Set() }: LocalMergeContext = {}): MergePlan => {
+  const localCategoryIds = new Set(current.categories.map(c => c.id));
+  const localStaffIds = new Set((current.staff || []).map(t => t.id));
+  return {
+    bills: planEntity('bills', [...current.bills, ...archivedBills], incoming.bills, trashedKeys),
+    bookings: planEntity('bookings', current.bookings, incoming.bookings, trashedKeys),
+    customers: planEntity('customers', current.customers, incoming.customers, trashedKeys),
+    services: planEntity('services', current.services, incoming.services, trashedKeys),
+    addedCategories: incoming.categories.filter(c => !localCategoryIds.has(c.id)),
+    addedStaff: (incoming.staff || []).filter(t => !localStaffIds.has(t.id)),
+  };
+};
+
+const applyEntity = <T extends { id: string }>(
+  entity: MergeEntity,
+  localList: T[],
+  plan: EntityMergePlan<T>,
+  resolutions: Record<string, ConflictResolution>
+): T[] => {
+  const replacements = new Map<string, T>();
+  plan.changed.forEach(({ merged }) => replacements.set(merged.id, merged));
+  plan.conflicts.forEach(({ incoming }) => {
+    if (resolutions[conflictKey(entity, incoming.id)] === 'incoming') {
+      replacements.set(incoming.id, incoming);
+    }
+  });
+
+  // Replacements for records outside the list (archived bills) are added as well; the import
+  // archives them again, over the old copies
+  const localIds = new Set(localList.map(record => record.id));
+  return [
+    ...plan.added,
+    ...localList.map(record => replacements.get(record.id) || record),
+    ...Array.from(replacements.values()).filter(record => !localIds.has(record.id)),
+  ];
+};
+
+// Unresolved conflicts keep the local version. Local categories and technicians are always kept;
+// the backup only adds the ones missing here.
+export const applyMergePlan = (
+  current: DataSet,
+  plan: MergePlan,
+  resolutions: Record<string, ConflictResolution>
+): DataSet => ({
+  ...current,
+  bills: applyEntity('bills', current.bills, plan.bills, resolutions),
+  bookings: applyEntity('bookings', current.bookings, plan.bookings, resolutions),
+  customers: applyEntity('customers', current.customers, plan.customers, resolutions),
+  services: applyEntity('services', current.services, plan.services, resolutions),
+  categories: [...current.categories, ...plan.addedCategories],
+  staff: [...(current.staff || []), ...plan.addedStaff],
+});
+
+export const hasMergeChanges = (plan: MergePlan) =>
+  plan.addedCategories.length > 0 ||
+  plan.addedStaff.length > 0 ||
+  MERGE_ENTITIES.some(entity => {
+    const entityPlan = plan[entity];
+    return entityPlan.added.length > 0 || entityPlan.changed.length > 0 || entityPlan.conflicts.length > 0;
+  });
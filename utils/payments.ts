@@ -0,0 +1,39 @@
+import type { Bill, Payment, PaymentMethod } from '../types';
+import { formatCurrency } from './dateUtils';
+import { getAmountDue } from './tips';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'transfer', 'card'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Tiền mặt',
+  transfer: 'Chuyển khoản',
+  card: 'Thẻ',
+};
+
+export const sumPayments = (payments: Payment[] | undefined): number =>
+  (payments || []).reduce((sum, payment) => sum + payment.amount, 0);
+
+// Totals per method, plus the part with no recorded payment: bills from before payments were
+// recorded, or whatever a bill's payments fall short of its total and tip.
+export interface PaymentBreakdown {
+  byMethod: Record<PaymentMethod, number>;
+  unrecorded: number;
+}
+
+export const summarizePayments = (bills: Bill[]): PaymentBreakdown => {
+  const byMethod: Record<PaymentMethod, number> = { cash: 0, transfer: 0, card: 0 };
+  let unrecorded = 0;
+  bills.forEach(bill => {
+    (bill.payments || []).forEach(payment => {
+      byMethod[payment.method] += payment.amount;
+    });
+    unrecorded += Math.max(0, getAmountDue(bill) - sumPayments(bill.payments));
+  });
+  return { byMethod, unrecorded };
+};
+
+// One line for the edit history: "Tiền mặt 200.000 ₫ + Chuyển khoản 150.000 ₫"
+export const describePayments = (payments: Payment[] | undefined): string | null =>
+  payments && payments.length > 0
+    ? payments.map(payment => `${PAYMENT_METHOD_LABELS[payment.method]} ${formatCurrency(payment.amount)}`).join(' + ')
+    : null;
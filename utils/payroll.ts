@@ -0,0 +1,176 @@
+import type { Bill, CommissionDiscountPolicy, CommissionRule, CommissionSettings, PredefinedService, Technician } from '../types';
+import { formatCurrency } from './dateUtils';
+import { getLocalDateKey } from './archive';
+import { findTipTechnician, getTip } from './tips';
+import { getBillSubtotal, getItemDiscount, getItemListPrice } from './discounts';
+
+export const DEFAULT_COMMISSION_SETTINGS: CommissionSettings = { rules: [], discountPolicy: 'proportional' };
+
+export const DISCOUNT_POLICY_OPTIONS: { id: CommissionDiscountPolicy; label: string; description: string }[] = [
+  { id: 'proportional', label: 'Chia theo tỷ lệ', description: 'Hoa hồng giảm theo đúng tỷ lệ giảm giá của dịch vụ.' },
+  { id: 'shop', label: 'Tiệm chịu', description: 'Hoa hồng tính trên giá gốc, tiệm chịu toàn bộ giảm giá.' },
+  { id: 'technician', label: 'Thợ chịu', description: 'Phần giảm giá của dịch vụ được trừ thẳng vào hoa hồng của thợ.' },
+];
+
+// The most specific rule wins: technician and category, then technician only, then category only,
+// then the shop-wide rule. Among equally specific rules the first one in the list counts.
+export const findCommissionRule = (rules: CommissionRule[], technicianId: string, categoryId?: string): CommissionRule | undefined => {
+  let best: CommissionRule | undefined;
+  let bestScore = -1;
+  rules.forEach(rule => {
+    if (rule.technicianId && rule.technicianId !== technicianId) return;
+    if (rule.categoryId && rule.categoryId !== categoryId) return;
+    const score = (rule.technicianId ? 2 : 0) + (rule.categoryId ? 1 : 0);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const describeCommissionRule = (rule: CommissionRule): string =>
+  rule.type === 'percent' ? `${rule.value}%` : `${formatCurrency(rule.value)}/lần`;
+
+// The bill discount spread over its items in proportion to their price. Shares are rounded on the
+// running total so they always add up to the whole discount.
+const spreadBillDiscount = (bill: Bill): number[] => {
+  const subtotal = getBillSubtotal(bill);
+  const discount = Math.max(0, subtotal - bill.total);
+  if (discount === 0 || subtotal <= 0) return bill.items.map(() => 0);
+  let running = 0;
+  let allocated = 0;
+  return bill.items.map(item => {
+    running += item.price;
+    const share = Math.round(discount * running / subtotal) - allocated;
+    allocated += share;
+    return share;
+  });
+};
+
+const computeCommission = (rule: CommissionRule, quantity: number, price: number, discount: number, policy: CommissionDiscountPolicy): number => {
+  const full = rule.type === 'percent' ? price * rule.value / 100 : rule.value * quantity;
+  switch (policy) {
+    case 'shop':
+      return Math.round(full);
+    case 'technician':
+      return Math.max(0, Math.round(full - discount));
+    default:
+      return price > 0 ? Math.round(full * (price - discount) / price) : Math.round(full);
+  }
+};
+
+export interface PayrollLine {
+  billId: string;
+  date: string;
+  customerName: string;
+  itemName: string;
+  quantity: number;
+  price: number; // List price, before the item's adjustment
+  discount: number; // The item's own adjustment plus its share of the bill discount
+  rule?: CommissionRule; // Unset when no rule covers the item, so it earns nothing
+  commission: number;
+}
+
+export interface PayrollStatement {
+  technician: Technician;
+  lines: PayrollLine[];
+  revenue: number; // Item prices after discounts
+  commission: number;
+  tips: number;
+  total: number; // Commission plus tips
+}
+
+export interface UnmatchedTip {
+  technician: string; // Name on the tip split
+  amount: number;
+}
+
+export interface Payroll {
+  statements: PayrollStatement[];
+  unassignedItems: number; // Items in the period nobody was assigned to, so nobody is paid for them
+  unmatchedTips: UnmatchedTip[]; // Split tips whose name matches nobody on the roster, by name
+}
+
+// Pay for everyone who worked or was tipped between `from` and `to` (local dates YYYY-MM-DD, both
+// included). Tips split before they were linked to the roster are matched by name.
+export const buildPayroll = (
+  bills: Bill[],
+  staff: Technician[],
+  services: PredefinedService[],
+  settings: CommissionSettings,
+  from: string,
+  to: string
+): Payroll => {
+  const categoryByService = new Map(services.map(service => [service.id, service.categoryId]));
+  const technicianById = new Map(staff.map(technician => [technician.id, technician]));
+  const statements = new Map<string, PayrollStatement>();
+  let unassignedItems = 0;
+  const unmatchedTips = new Map<string, UnmatchedTip>();
+
+  const getStatement = (technician: Technician): PayrollStatement => {
+    let statement = statements.get(technician.id);
+    if (!statement) {
+      statement = { technician, lines: [], revenue: 0, commission: 0, tips: 0, total: 0 };
+      statements.set(technician.id, statement);
+    }
+    return statement;
+  };
+
+  bills.forEach(bill => {
+    const day = getLocalDateKey(bill.date);
+    if (day < from || day > to) return;
+
+    const billDiscountShares = spreadBillDiscount(bill);
+    bill.items.forEach((item, index) => {
+      const technician = item.technicianId ? technicianById.get(item.technicianId) : undefined;
+      if (!technician) {
+        unassignedItems += 1;
+        return;
+      }
+      const price = getItemListPrice(item);
+      const discount = getItemDiscount(item) + billDiscountShares[index];
+      const rule = findCommissionRule(settings.rules, technician.id, categoryByService.get(item.serviceId));
+      const commission = rule ? computeCommission(rule, item.quantity, price, discount, settings.discountPolicy) : 0;
+      const statement = getStatement(technician);
+      statement.lines.push({
+        billId: bill.id,
+        date: bill.date,
+        customerName: bill.customerName,
+        itemName: item.variantName ? `${item.name} (${item.variantName})` : item.name,
+        quantity: item.quantity,
+        price,
+        discount,
+        rule,
+        commission,
+      });
+      statement.revenue += price - discount;
+      statement.commission += commission;
+    });
+
+    if (getTip(bill) > 0) {
+      (bill.tipSplits || []).forEach(split => {
+        const technician = findTipTechnician(split, staff);
+        if (technician) {
+          getStatement(technician).tips += split.amount;
+          return;
+        }
+        const name = split.technician.trim();
+        const unmatched = unmatchedTips.get(name.toLowerCase()) || { technician: name, amount: 0 };
+        unmatched.amount += split.amount;
+        unmatchedTips.set(name.toLowerCase(), unmatched);
+      });
+    }
+  });
+
+  const result = Array.from(statements.values()).map(statement => ({
+    ...statement,
+    lines: statement.lines.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()),
+    total: statement.commission + statement.tips,
+  }));
+  return {
+    statements: result.sort((a, b) => a.technician.name.localeCompare(b.technician.name, 'vi')),
+    unassignedItems,
+    unmatchedTips: Array.from(unmatchedTips.values()).sort((a, b) => b.amount - a.amount),
+  };
+};
@@ -0,0 +1,57 @@
+// Mobile prefixes in use since the 2018 renumbering (Viettel, Vinaphone, MobiFone, Vietnamobile,
+// Gmobile, Itelecom, Reddi).
+const MOBILE_PREFIXES = [
+  '032', '033', '034', '035', '036', '037', '038', '039',
+  '052', '055', '056', '058', '059',
+  '070', '076', '077', '078', '079',
+  '081', '082', '083', '084', '085', '086', '087', '088', '089',
+  '090', '091', '092', '093', '094', '096', '097', '098', '099',
+];
+
+// Canonical form of a Vietnamese phone number, for comparing numbers typed in different ways:
+// digits only, with the +84 / 84 country code replaced by the leading 0, and the leading 0 added
+// back to a mobile number typed without it.
+// "+84 901 234 567", "0901.234.567", "84901234567" and "901234567" all become "0901234567".
+export const normalizePhone = (phone: string | undefined): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.startsWith('84') && digits.length >= 11) return '0' + digits.slice(2);
+  if (digits.length === 9 && MOBILE_PREFIXES.includes('0' + digits.slice(0, 2))) return '0' + digits;
+  return digits;
+};
+
+// A 10-digit mobile number, or an 11-digit landline (area codes all start with 02).
+export const isValidPhone = (phone: string | undefined): boolean => {
+  const normalized = normalizePhone(phone);
+  if (normalized.length === 10) return MOBILE_PREFIXES.includes(normalized.slice(0, 3));
+  return normalized.length === 11 && normalized.startsWith('02');
+};
+
+// What gets saved: the normalized digits when the number is a valid Vietnamese one, otherwise
+// the text as typed (a foreign number, say), so nothing is lost.
+export const canonicalPhone = (phone: string | undefined): string => {
+  if (!phone?.trim()) return '';
+  return isValidPhone(phone) ? normalizePhone(phone) : phone.trim();
+};
+
+// "0905123456" -> "0905 123 456", "02836221234" -> "028 3622 1234"; anything else is shown as is.
+export const formatPhone = (phone: string | undefined): string => {
+  if (!phone || !isValidPhone(phone)) return phone || '';
+  const normalized = normalizePhone(phone);
+  return normalized.length === 10
+    ? `${normalized.slice(0, 4)} ${normalized.slice(4, 7)} ${normalized.slice(7)}`
+    : `${normalized.slice(0, 3)} ${normalized.slice(3, 7)} ${normalized.slice(7)}`;
+};
+
+// Digits typed into a search box, when there are enough of them to be meant as a phone search.
+const MIN_SEARCH_DIGITS = 3;
+
+export const isPhoneQuery = (query: string): boolean =>
+  /^[\d\s.+-]+$/.test(query.trim()) && query.replace(/\D/g, '').length >= MIN_SEARCH_DIGITS;
+
+// Matches the last digits ("456") or any other part of the number, as well as a whole number typed in any format.
+export const phoneMatchesQuery = (phone: string | undefined, query: string): boolean => {
+  const normalized = normalizePhone(phone);
+  if (!normalized || !isPhoneQuery(query)) return false;
+  const digits = query.replace(/\D/g, '');
+  return normalized.includes(digits) || normalized.includes(normalizePhone(query));
+};
@@ -0,0 +1,104 @@
+import type { DataSet, BackupFile } from '../types';
+import { linkRecordsByName } from './customerLinks';
+import { canonicalPhone } from './phone';
+
+// Version 1 is the original, unversioned data written by the localStorage hooks.
+// Bump this and append a step to MIGRATIONS whenever the stored shape changes.
+export const CURRENT_SCHEMA_VERSION = 4;
+
+interface Migration {
+  version: number; // The version the data is at after this step runs
+  description: string;
+  migrate: (data: DataSet) => DataSet;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: 'Fill in optional fields that older bills, bookings and services may be missing',
+    migrate: (data) => {
+      const normalizeBill = <T extends DataSet['bills'][number]>(bill: T): T => ({
+        ...bill,
+        items: (bill.items || []).map(item => ({ ...item, quantity: item.quantity || 1 })),
+        discountValue: bill.discountValue || 0,
+        discountType: bill.discountType || 'amount',
+        note: bill.note || '',
+      });
+
+      return {
+        ...data,
+        bills: data.bills.map(normalizeBill),
+        bookings: data.bookings.map(normalizeBill),
+        services: data.services.map(service => ({
+          ...service,
+          priceType: service.priceType || 'fixed',
+          variants: service.variants || [],
+          allowQuantity: !!service.allowQuantity,
+        })),
+      };
+    },
+  },
+  {
+    version: 3,
+    description: 'Link bills and bookings to the customer profile with the same name, where only one has it',
+    migrate: (data) => {
+      const link = <T extends DataSet['bills'][number]>(records: T[]): T[] => {
+        const linked = new Map(linkRecordsByName(records, data.customers).map(record => [record.id, record]));
+        return records.map(record => linked.get(record.id) || record);
+      };
+      return { ...data, bills: link(data.bills), bookings: link(data.bookings) };
+    },
+  },
+  {
+    version: 4,
+    description: 'Store customer phone numbers in the canonical 0xxxxxxxxx form',
+    migrate: (data) => ({
+      ...data,
+      customers: data.customers.map(customer => (customer.phone ? { ...customer, phone: canonicalPhone(customer.phone) } : customer)),
+    }),
+  },
+];
+
+// Runs every step newer than `fromVersion`, in order.
+export const migrateDataSet = (data: DataSet, fromVersion: number): DataSet =>
+  MIGRATIONS
+    .filter(step => step.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, step) => step.migrate(current), data);
+
+// Backups written before versioning have no schemaVersion field and are treated as version 1.
+export const getBackupSchemaVersion = (raw: any): number =>
+  typeof raw?.schemaVersion === 'number' ? raw.schemaVersion : 1;
+
+export const isSupportedSchemaVersion = (version: number): boolean =>
+  Number.isInteger(version) && version >= 1 && version <= CURRENT_SCHEMA_VERSION;
+
+// Brings a parsed backup file up to the current schema. Missing collections become empty arrays.
+export const upgradeBackup = (raw: any): BackupFile => {
+  const fromVersion = getBackupSchemaVersion(raw);
+  const data: DataSet = {
+    bills: Array.isArray(raw.bills) ? raw.bills : [],
+    bookings: Array.isArray(raw.bookings) ? raw.bookings : [],
+    customers: Array.isArray(raw.customers) ? raw.customers : [],
+    services: Array.isArray(raw.services) ? raw.services : [],
+    categories: Array.isArray(raw.categories) ? raw.categories : [],
+    staff: Array.isArray(raw.staff) ? raw.staff : undefined,
+    settings: raw.settings && typeof raw.settings === 'object' ? raw.settings : undefined,
+  };
+
+  return {
+    ...migrateDataSet(data, fromVersion),
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: raw.exportedAt,
+    notifiedBookingIds: Array.isArray(raw.notifiedBookingIds)
+      ? raw.notifiedBookingIds.filter((id: unknown) => typeof id === 'string')
+      : undefined,
+  };
+};
+
+export const createBackup = (data: DataSet, notifiedBookingIds?: string[]): BackupFile => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  ...data,
+  notifiedBookingIds,
+});
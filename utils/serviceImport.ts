@@ -0,0 +1,216 @@
+// Turns a price-list CSV into a plan of service creations/updates that can be previewed before
+// anything is saved. Existing services are matched by name (ignoring case and surrounding spaces).
+//
+// Expected columns (header row required, order free, Vietnamese or English names):
+//   Loại dịch vụ | Tên dịch vụ | Kiểu giá | Giá | Mức giá | Cho phép số lượng
+// "Mức giá" lists the variants of a service with variable pricing: "Móng ngắn=200000|Móng dài=250000".
+
+import type { PredefinedService, PriceVariant, ServiceCategory } from '../types';
+import { toCsv, normalizeCsvText } from './csv';
+
+type ServiceColumn = 'category' | 'name' | 'priceType' | 'price' | 'variants' | 'allowQuantity';
+
+export type ServiceImportStatus = 'create' | 'update' | 'unchanged' | 'invalid';
+
+export interface ServiceImportRow {
+  line: number; // Line number in the file, for the preview
+  status: ServiceImportStatus;
+  name: string;
+  categoryName: string;
+  service?: PredefinedService; // The service as it will be saved (absent for invalid rows)
+  error?: string;
+}
+
+export interface ServiceImportPlan {
+  rows: ServiceImportRow[];
+  newCategories: ServiceCategory[];
+}
+
+export class ServiceImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ServiceImportError';
+  }
+}
+
+const EXPORT_HEADERS: Record<ServiceColumn, string> = {
+  category: 'Loại dịch vụ',
+  name: 'Tên dịch vụ',
+  priceType: 'Kiểu giá',
+  price: 'Giá',
+  variants: 'Mức giá',
+  allowQuantity: 'Cho phép số lượng',
+};
+
+const COLUMN_ALIASES: Record<ServiceColumn, string[]> = {
+  category: ['loai dich vu', 'loai', 'danh muc', 'category'],
+  name: ['ten dich vu', 'dich vu', 'ten', 'name', 'service'],
+  priceType: ['kieu gia', 'price type', 'pricetype'],
+  price: ['gia', 'price'],
+  variants: ['muc gia', 'variants'],
+  allowQuantity: ['cho phep so luong', 'so luong', 'allow quantity', 'allowquantity'],
+};
+
+const VARIANT_SEPARATOR = '|';
+const TRUE_VALUES = ['x', '1', 'co', 'true', 'yes'];
+
+const generateId = () => new Date().toISOString() + Math.random().toString(36).substr(2, 9);
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+// Accepts "80000", "80.000", "80,000 đ"...; prices are whole đồng.
+const parsePrice = (value: string): number | null => {
+  const digits = value.replace(/[^\d]/g, '');
+  if (!digits || /-/.test(value)) return null;
+  return parseInt(digits, 10);
+};
+
+const mapColumns = (header: string[]): Partial<Record<ServiceColumn, number>> => {
+  const columns: Partial<Record<ServiceColumn, number>> = {};
+  header.forEach((cell, index) => {
+    const normalized = normalizeCsvText(cell);
+    (Object.keys(COLUMN_ALIASES) as ServiceColumn[]).forEach(column => {
+      if (columns[column] === undefined && COLUMN_ALIASES[column].includes(normalized)) {
+        columns[column] = index;
+      }
+    });
+  });
+  return columns;
+};
+
+const parseVariants = (value: string, existing: PriceVariant[]): PriceVariant[] | string => {
+  const variants: PriceVariant[] = [];
+  for (const part of value.split(VARIANT_SEPARATOR)) {
+    if (!part.trim()) continue;
+    const separatorIndex = part.lastIndexOf('=');
+    const name = separatorIndex > 0 ? part.slice(0, separatorIndex).trim() : '';
+    const price = separatorIndex > 0 ? parsePrice(part.slice(separatorIndex + 1)) : null;
+    if (!name || price === null) return `Mức giá "${part.trim()}" không đúng dạng Tên=Giá.`;
+    // Keep the ids of variants that already exist, so nothing referring to them breaks
+    const match = existing.find(variant => nameKey(variant.name) === nameKey(name));
+    variants.push({ id: match?.id || `var-${Date.now()}-${variants.length}`, name, price });
+  }
+  return variants;
+};
+
+const sameService = (a: PredefinedService, b: PredefinedService) =>
+  a.name === b.name &&
+  (a.categoryId || '') === (b.categoryId || '') &&
+  (a.priceType || 'fixed') === (b.priceType || 'fixed') &&
+  a.price === b.price &&
+  !!a.allowQuantity === !!b.allowQuantity &&
+  JSON.stringify((a.variants || []).map(v => [v.name, v.price])) ===
+    JSON.stringify((b.variants || []).map(v => [v.name, v.price]));
+
+export const planServiceImport = (
+  rows: string[][],
+  services: PredefinedService[],
+  categories: ServiceCategory[]
+): ServiceImportPlan => {
+  if (rows.length === 0) throw new ServiceImportError('File CSV trống.');
+  const columns = mapColumns(rows[0]);
+  if (columns.name === undefined) {
+    throw new ServiceImportError(`Không tìm thấy cột "${EXPORT_HEADERS.name}" ở dòng tiêu đề.`);
+  }
+  if (columns.price === undefined && columns.variants === undefined) {
+    throw new ServiceImportError(`File cần có cột "${EXPORT_HEADERS.price}" hoặc "${EXPORT_HEADERS.variants}".`);
+  }
+
+  const servicesByName = new Map(services.map(service => [nameKey(service.name), service]));
+  const categoriesByName = new Map(categories.map(category => [nameKey(category.name), category]));
+  const newCategories: ServiceCategory[] = [];
+  const seenNames = new Map<string, number>();
+
+  const planned = rows.slice(1).map((cells, index): ServiceImportRow => {
+    const line = index + 2;
+    const cell = (column: ServiceColumn) => (columns[column] === undefined ? '' : (cells[columns[column]!] || '').trim());
+    const name = cell('name');
+    const categoryName = cell('category');
+    const invalid = (error: string): ServiceImportRow => ({ line, status: 'invalid', name, categoryName, error });
+
+    if (!name) return invalid('Thiếu tên dịch vụ.');
+    const duplicateLine = seenNames.get(nameKey(name));
+    if (duplicateLine) return invalid(`Trùng tên với dòng ${duplicateLine}.`);
+    seenNames.set(nameKey(name), line);
+
+    const existing = servicesByName.get(nameKey(name));
+    const variantsCell = cell('variants');
+    const priceTypeCell = normalizeCsvText(cell('priceType'));
+    let priceType: 'fixed' | 'variable';
+    if (!priceTypeCell) {
+      priceType = variantsCell ? 'variable' : 'fixed';
+    } else if (['fixed', 'co dinh', 'gia co dinh'].includes(priceTypeCell)) {
+      priceType = 'fixed';
+    } else if (['variable', 'tuy chon', 'gia tuy chon'].includes(priceTypeCell)) {
+      priceType = 'variable';
+    } else {
+      return invalid(`Kiểu giá "${cell('priceType')}" không hợp lệ (dùng "cố định" hoặc "tùy chọn").`);
+    }
+
+    let price = 0;
+    let variants: PriceVariant[] = [];
+    if (priceType === 'fixed') {
+      const parsed = parsePrice(cell('price'));
+      if (parsed === null) return invalid('Giá không hợp lệ.');
+      price = parsed;
+    } else {
+      const parsed = parseVariants(variantsCell, existing?.variants || []);
+      if (typeof parsed === 'string') return invalid(parsed);
+      if (parsed.length === 0) return invalid('Dịch vụ giá tùy chọn cần ít nhất một mức giá.');
+      variants = parsed;
+    }
+
+    // An empty category cell leaves an existing service where it is
+    let categoryId = existing?.categoryId || '';
+    if (categoryName) {
+      let category = categoriesByName.get(nameKey(categoryName));
+      if (!category) {
+        category = { id: generateId(), name: categoryName };
+        categoriesByName.set(nameKey(categoryName), category);
+        newCategories.push(category);
+      }
+      categoryId = category.id;
+    }
+
+    const allowQuantityCell = cell('allowQuantity');
+    const allowQuantity = columns.allowQuantity === undefined && existing
+      ? !!existing.allowQuantity
+      : TRUE_VALUES.includes(normalizeCsvText(allowQuantityCell));
+
+    const service: PredefinedService = {
+      id: existing?.id || generateId(),
+      name: existing ? existing.name : name, // Matching ignores case, so keep the stored spelling
+      price,
+      priceType,
+      variants,
+      allowQuantity,
+      categoryId,
+    };
+    const status = !existing ? 'create' : sameService(existing, service) ? 'unchanged' : 'update';
+    return { line, status, name, categoryName, service };
+  });
+
+  // Categories that end up unused because all their rows were invalid are not created
+  const usedCategoryIds = new Set(planned.map(row => row.service?.categoryId));
+  return { rows: planned, newCategories: newCategories.filter(category => usedCategoryIds.has(category.id)) };
+};
+
+// The current price list in the import format, to edit in a spreadsheet and import back.
+export const servicesToCsv = (services: PredefinedService[], categories: ServiceCategory[]): string => {
+  const categoryNames = new Map(categories.map(category => [category.id, category.name]));
+  const header = (Object.keys(EXPORT_HEADERS) as ServiceColumn[]).map(column => EXPORT_HEADERS[column]);
+  const rows = [...services]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(service => {
+      const isVariable = service.priceType === 'variable';
+      return [
+        categoryNames.get(service.categoryId || '') || '',
+        service.name,
+        isVariable ? 'tùy chọn' : 'cố định',
+        isVariable ? '' : service.price,
+        isVariable ? (service.variants || []).map(v => `${v.name}=${v.price}`).join(VARIANT_SEPARATOR) : '',
+        service.allowQuantity ? 'x' : '',
+      ];
+    });
+  return toCsv([header, ...rows]);
+};
@@ -0,0 +1,90 @@
+import type { BackupFile } from '../types';
+import { createRepository, getMeta, META_KEYS } from './db';
+import { readFullDataSet } from './archive';
+import { createBackup } from './schema';
+import { getTodayDateString } from './dateUtils';
+
+export const DEFAULT_SNAPSHOT_RETENTION_DAYS = 7;
+
+export interface SnapshotSummary {
+  id: string; // Local date YYYY-MM-DD, one snapshot per day
+  createdAt: string;
+  counts: {
+    bills: number;
+    bookings: number;
+    customers: number;
+    services: number;
+    categories: number;
+  };
+  revenue: number;
+}
+
+interface SnapshotData {
+  id: string;
+  backup: BackupFile;
+}
+
+const snapshotsRepository = createRepository<SnapshotSummary>('snapshots');
+const snapshotDataRepository = createRepository<SnapshotData>('snapshotData');
+
+const getDateKeyDaysAgo = (days: number): string => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const getSnapshotRetentionDays = async (): Promise<number> =>
+  (await getMeta<number>(META_KEYS.snapshotRetentionDays)) || DEFAULT_SNAPSHOT_RETENTION_DAYS;
+
+// Drops snapshots older than the last `retentionDays` days (today included).
+export const pruneSnapshots = async (retentionDays: number): Promise<void> => {
+  const cutoff = getDateKeyDaysAgo(retentionDays - 1);
+  const summaries = await snapshotsRepository.getAll();
+  await Promise.all(
+    summaries
+      .filter(summary => summary.id < cutoff)
+      .map(summary => Promise.all([
+        snapshotsRepository.remove(summary.id),
+        snapshotDataRepository.remove(summary.id),
+      ]))
+  );
+};
+
+// Takes today's snapshot if there isn't one yet. Reads from the stores rather than
+// from hook state, so it never captures the empty state before the hooks have loaded.
+export const takeDailySnapshot = async (): Promise<void> => {
+  const today = getTodayDateString();
+  const existing = await snapshotsRepository.get(today);
+
+  if (!existing) {
+    // Archived bills included, so restoring a snapshot never loses them
+    const data = await readFullDataSet();
+    const backup = createBackup(data);
+    const summary: SnapshotSummary = {
+      id: today,
+      createdAt: backup.exportedAt || new Date().toISOString(),
+      counts: {
+        bills: data.bills.length,
+        bookings: data.bookings.length,
+        customers: data.customers.length,
+        services: data.services.length,
+        categories: data.categories.length,
+      },
+      revenue: data.bills.reduce((sum, bill) => sum + (bill.total || 0), 0),
+    };
+    // Write the data first so a listed snapshot always has something to restore
+    await snapshotDataRepository.put({ id: today, backup });
+    await snapshotsRepository.put(summary);
+  }
+
+  await pruneSnapshots(await getSnapshotRetentionDays());
+};
+
+export const listSnapshots = async (): Promise<SnapshotSummary[]> =>
+  (await snapshotsRepository.getAll()).sort((a, b) => b.id.localeCompare(a.id));
+
+export const loadSnapshot = async (id: string): Promise<BackupFile | undefined> =>
+  (await snapshotDataRepository.get(id))?.backup;
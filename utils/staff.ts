@@ -0,0 +1,15 @@
+import type { Bill, Booking } from '../types';
+
+// A booking becoming a bill: items nobody was assigned to go to the technician the customer
+// booked with, and the booking-only fields are dropped.
+export const bookingToBill = (booking: Booking): Omit<Bill, 'id'> => {
+  const { id, createdAt, technicianId, ...billData } = booking;
+  return {
+    ...billData,
+    items: booking.items.map(item => (item.technicianId || !technicianId ? item : { ...item, technicianId })),
+  };
+};
+
+// Whether the technician did any item on the bill (or, for a booking, was booked for it).
+export const hasTechnician = (bill: Bill | Booking, technicianId: string): boolean =>
+  ('technicianId' in bill && bill.technicianId === technicianId) || bill.items.some(item => item.technicianId === technicianId);
@@ -0,0 +1,277 @@
+// Client side of the optional LAN sync. Local writes are queued in the outbox by the storage
+// layer (see db.ts); runSync pushes the outbox to the sync server and applies whatever other
+// devices wrote since the last run.
+//
+// Conflicts are resolved per record: the change with the higher version wins, comparing the
+// hybrid clock first and the device id second. The server and every device apply the same
+// rule, so they all end up with the same record whatever order changes arrive in.
+//
+// The bill archive is per device (see archive.ts): archiving never queues deletions, so the server
+// keeps every bill. Pulled bills dated before this device's cutoff are written to its archive,
+// and connecting an existing device sends its archived bills along with the live ones.
+
+import type { Bill, Customer, Booking, PredefinedService, ServiceCategory, ShopSettings, SyncChange, SyncVersion } from '../types';
+import {
+  createRepository, runTransaction, getMeta, setMeta, updateMeta, deleteMeta, META_KEYS, META_STORE,
+  setSyncDeviceId, observeSyncClock, queueAllForSync
+} from './db';
+import type { RecordStoreName } from './db';
+import { CURRENT_SCHEMA_VERSION, migrateDataSet } from './schema';
+import { buildAuditEntry, isAuditedEntity } from './audit';
+import { getArchiveSummary, getLocalDateKey, readArchivedBills, applyArchivedBillChanges } from './archive';
+import { notifyChange } from './broadcast';
+
+export interface SyncConfig {
+  enabled: boolean;
+  serverUrl: string;
+  token: string;
+  deviceId: string;
+  cursor: number; // Server sequence number of the last change pulled
+  clock: number; // Highest version timestamp seen, restored into the clock on startup
+  lastSyncedAt?: string;
+}
+
+export interface SyncServerStatus {
+  records: number;
+  cursor: number;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number;
+}
+
+// What to do with the data already on this device the first time it connects.
+export type InitialSyncMode = 'merge' | 'replace';
+
+export class SyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+const RECORD_STORES: RecordStoreName[] = ['bills', 'bookings', 'customers', 'services'];
+
+const outboxRepository = createRepository<SyncChange>('syncOutbox');
+
+export const compareVersions = (a: SyncVersion, b: SyncVersion): number =>
+  a.ts !== b.ts ? a.ts - b.ts : a.deviceId < b.deviceId ? -1 : a.deviceId > b.deviceId ? 1 : 0;
+
+export const getSyncConfig = () => getMeta<SyncConfig>(META_KEYS.syncConfig);
+
+const updateSyncConfig = (patch: Partial<SyncConfig>) =>
+  updateMeta<SyncConfig>(META_KEYS.syncConfig, current => ({ ...(current as SyncConfig), ...patch }));
+
+const generateDeviceId = () => 'device-' + Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
+
+const request = async <T>(serverUrl: string, token: string, path: string, body?: unknown): Promise<T> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  let response: Response;
+  try {
+    response = await fetch(serverUrl.replace(/\/+$/, '') + path, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (error) {
+    throw new SyncError('Không kết nối được tới máy chủ đồng bộ.');
+  } finally {
+    clearTimeout(timeoutId);
+  }
+  if (response.status === 401) throw new SyncError('Mã truy cập máy chủ không đúng.');
+  if (!response.ok) throw new SyncError(`Máy chủ đồng bộ báo lỗi (${response.status}).`);
+  return response.json();
+};
+
+export const checkSyncServer = (serverUrl: string, token: string) =>
+  request<SyncServerStatus>(serverUrl, token, '/status');
+
+// Changes written by an older app version are upgraded like a backup would be.
+const upgradeChange = (change: SyncChange): SyncChange => {
+  if (change.deleted || change.schemaVersion >= CURRENT_SCHEMA_VERSION) return change;
+  const data = migrateDataSet({
+    bills: change.store === 'bills' ? [change.record as Bill] : [],
+    bookings: change.store === 'bookings' ? [change.record as Booking] : [],
+    customers: change.store === 'customers' ? [change.record as Customer] : [],
+    services: change.store === 'services' ? [change.record as PredefinedService] : [],
+    categories: change.id === META_KEYS.categories ? change.record as ServiceCategory[] : [],
+    settings: change.id === META_KEYS.shopSettings ? change.record as Partial<ShopSettings> : undefined,
+  }, change.schemaVersion);
+  const record = change.store !== META_STORE
+    ? data[change.store][0]
+    : change.id === META_KEYS.categories ? data.categories
+    : change.id === META_KEYS.shopSettings ? data.settings
+    : change.record; // No migration touches the other shared entries
+  return { ...change, record, schemaVersion: CURRENT_SCHEMA_VERSION };
+};
+
+// Writes pulled changes without queueing them again. A pending local change that is newer
+// than the pulled one is kept (it goes out with the next push); otherwise the pulled one wins
+// and the local change is dropped. Returns the stores / meta keys that changed.
+const applyRemoteChanges = async (changes: SyncChange[], replaceLocal: boolean): Promise<Set<string>> => {
+  const changedTopics = new Set<string>();
+  const pulledKeys = new Set(changes.map(change => change.key));
+  // Bills dated before this device's archive cutoff go into its archive, not the bills store
+  const archiveCutoff = (await getArchiveSummary())?.cutoff;
+  const isArchivedBill = (change: SyncChange) =>
+    !!archiveCutoff && change.store === 'bills' && !change.deleted && getLocalDateKey((change.record as Bill).date) < archiveCutoff;
+
+  await runTransaction([...RECORD_STORES, META_STORE, 'syncOutbox', 'auditLog'], tx => {
+    const outbox = tx.objectStore('syncOutbox');
+
+    changes.filter(change => !isArchivedBill(change)).forEach(change => {
+      const pendingRequest = outbox.get(change.key);
+      pendingRequest.onsuccess = () => {
+        const pending: SyncChange | undefined = pendingRequest.result;
+        if (pending) {
+          const order = compareVersions(pending.version, change.version);
+          if (order > 0) return;
+          outbox.delete(change.key);
+          if (order === 0) return; // Our own change coming back from the server
+        }
+
+        if (change.store === META_STORE) {
+          if (change.deleted) tx.objectStore(META_STORE).delete(change.id);
+          else tx.objectStore(META_STORE).put(change.record, change.id);
+          changedTopics.add(change.id);
+          return;
+        }
+
+        const store = tx.objectStore(change.store);
+        const entity = change.store;
+        const currentRequest = store.get(change.id);
+        currentRequest.onsuccess = () => {
+          const current = currentRequest.result;
+          if (change.deleted) {
+            if (!current) return;
+            store.delete(change.id);
+          } else {
+            store.put(change.record);
+          }
+          if (isAuditedEntity(entity)) {
+            const action = change.deleted ? 'delete' : current ? 'update' : 'create';
+            const entry = buildAuditEntry(entity, action, current, change.deleted ? undefined : change.record as Bill);
+            if (action !== 'update' || entry.changes.length > 0) tx.objectStore('auditLog').put(entry);
+          }
+          changedTopics.add(entity);
+        };
+      };
+    });
+
+    // First sync in "replace" mode: drop local records the server doesn't know about
+    if (replaceLocal) {
+      RECORD_STORES.forEach(storeName => {
+        const keysRequest = tx.objectStore(storeName).getAllKeys();
+        keysRequest.onsuccess = () => {
+          (keysRequest.result as string[]).forEach(id => {
+            if (pulledKeys.has(`${storeName}:${id}`)) return;
+            tx.objectStore(storeName).delete(id);
+            changedTopics.add(storeName);
+          });
+        };
+      });
+    }
+  });
+
+  if (archiveCutoff) {
+    const billChanges = changes.filter(change => change.store === 'bills');
+    const removedIds = billChanges.filter(change => !isArchivedBill(change)).map(change => change.id);
+    // "replace" mode drops archived bills the server doesn't know about too
+    if (replaceLocal) {
+      (await readArchivedBills()).forEach(bill => {
+        if (!pulledKeys.has(`bills:${bill.id}`)) removedIds.push(bill.id);
+      });
+    }
+    await applyArchivedBillChanges(billChanges.filter(isArchivedBill).map(change => change.record as Bill), removedIds);
+  }
+
+  return changedTopics;
+};
+
+interface SyncResponse {
+  changes: SyncChange[];
+  cursor: number;
+}
+
+const syncOnce = async (config: SyncConfig, replaceLocal: boolean): Promise<SyncResult> => {
+  observeSyncClock(config.clock || 0);
+  const outbox = await outboxRepository.getAll();
+
+  const response = await request<SyncResponse>(config.serverUrl, config.token, '/sync', {
+    deviceId: config.deviceId,
+    since: replaceLocal ? 0 : config.cursor,
+    changes: outbox,
+  });
+  if (!response || !Array.isArray(response.changes) || typeof response.cursor !== 'number') {
+    throw new SyncError('Máy chủ đồng bộ trả về dữ liệu không hợp lệ.');
+  }
+  if (response.changes.some(change => change.schemaVersion > CURRENT_SCHEMA_VERSION)) {
+    throw new SyncError('Một thiết bị khác đang dùng phiên bản ứng dụng mới hơn. Vui lòng cập nhật ứng dụng.');
+  }
+
+  const changes = response.changes.map(upgradeChange);
+  const maxTs = changes.reduce((max, change) => Math.max(max, change.version.ts), config.clock || 0);
+  observeSyncClock(maxTs);
+
+  const changedTopics = await applyRemoteChanges(changes, replaceLocal);
+  await updateSyncConfig({ cursor: response.cursor, clock: maxTs, lastSyncedAt: new Date().toISOString() });
+  notifyChange(Array.from(changedTopics));
+
+  return { pushed: outbox.length, pulled: changes.filter(change => change.version.deviceId !== config.deviceId).length };
+};
+
+// Runs one push/pull round. Uses a Web Lock where available so two open tabs don't sync at the same time.
+export const runSync = async (): Promise<SyncResult | null> => {
+  const run = async () => {
+    const config = await getSyncConfig();
+    if (!config?.enabled) return null;
+    return syncOnce(config, false);
+  };
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request('nailSpa-sync', { ifAvailable: true }, lock => (lock ? run() : null));
+  }
+  return run();
+};
+
+// Connects this device to a sync server. In 'merge' mode everything on the device is pushed;
+// in 'replace' mode the device takes the server's data and drops its own.
+export const enableSync = async (serverUrl: string, token: string, mode: InitialSyncMode): Promise<SyncResult> => {
+  await checkSyncServer(serverUrl, token);
+
+  const existing = await getSyncConfig();
+  const config: SyncConfig = {
+    enabled: true,
+    serverUrl: serverUrl.trim(),
+    token: token.trim(),
+    deviceId: existing?.deviceId || generateDeviceId(),
+    cursor: 0,
+    clock: existing?.clock || 0,
+  };
+  await outboxRepository.replaceAll([]);
+  await setMeta(META_KEYS.syncConfig, config);
+  setSyncDeviceId(config.deviceId);
+  if (mode === 'merge') await queueAllForSync(await readArchivedBills());
+
+  return syncOnce(config, mode === 'replace');
+};
+
+export const disableSync = async (): Promise<void> => {
+  setSyncDeviceId(null);
+  // Keep the device id and clock of a real connection for reconnecting; otherwise leave nothing behind
+  const existing = await getSyncConfig();
+  if (existing?.serverUrl) {
+    await updateSyncConfig({ enabled: false });
+  } else {
+    await deleteMeta(META_KEYS.syncConfig);
+  }
+  await outboxRepository.replaceAll([]);
+};
+
+export const countPendingChanges = async (): Promise<number> => (await outboxRepository.getAll()).length;
@@ -0,0 +1,76 @@
+import type { Bill, Technician, TipSplit } from '../types';
+import { formatCurrency } from './dateUtils';
+
+export const getTip = (bill: Bill): number => bill.tip || 0;
+
+// What the customer hands over: the service total plus the tip.
+export const getAmountDue = (bill: Bill): number => bill.total + getTip(bill);
+
+export const sumTipSplits = (splits: TipSplit[] | undefined): number =>
+  (splits || []).reduce((sum, split) => sum + split.amount, 0);
+
+// The roster technician a split goes to: by id, or for splits saved without one, by a name only
+// one technician has.
+export const findTipTechnician = (split: TipSplit, staff: Technician[]): Technician | undefined => {
+  if (split.technicianId) return staff.find(technician => technician.id === split.technicianId);
+  const key = split.technician.trim().toLowerCase();
+  const matches = staff.filter(technician => technician.name.trim().toLowerCase() === key);
+  return matches.length === 1 ? matches[0] : undefined;
+};
+
+// Links each split to its roster technician, under the technician's current name, before saving.
+export const linkTipSplits = (splits: TipSplit[], staff: Technician[]): TipSplit[] =>
+  splits.map(split => {
+    const technician = findTipTechnician(split, staff);
+    return technician
+      ? { technician: technician.name, technicianId: technician.id, amount: split.amount }
+      : { technician: split.technician.trim(), amount: split.amount };
+  });
+
+export interface TechnicianTips {
+  technician: string;
+  amount: number;
+  billCount: number;
+}
+
+// Tip totals per technician, largest first. `unassigned` is whatever part of the tips nobody was
+// given, so the two always add up to the tips collected. Roster technicians are listed under their
+// current name; other names as written.
+export const summarizeTipsByTechnician = (bills: Bill[], staff: Technician[] = []): { technicians: TechnicianTips[]; unassigned: number } => {
+  const byTechnician = new Map<string, TechnicianTips>();
+  let unassigned = 0;
+  bills.forEach(bill => {
+    const tip = getTip(bill);
+    if (tip <= 0) return;
+    (bill.tipSplits || []).forEach(split => {
+      const rosterTechnician = findTipTechnician(split, staff);
+      const technician = rosterTechnician ? rosterTechnician.name : split.technician.trim();
+      const key = rosterTechnician ? rosterTechnician.id : technician.toLowerCase();
+      const entry = byTechnician.get(key) || { technician, amount: 0, billCount: 0 };
+      entry.amount += split.amount;
+      entry.billCount += 1;
+      byTechnician.set(key, entry);
+    });
+    unassigned += Math.max(0, tip - sumTipSplits(bill.tipSplits));
+  });
+  return {
+    technicians: Array.from(byTechnician.values()).sort((a, b) => b.amount - a.amount),
+    unassigned,
+  };
+};
+
+// Names used on earlier tips, for suggestions when splitting a new one.
+export const getTechnicianNames = (bills: Bill[]): string[] => {
+  const names = new Map<string, string>();
+  bills.forEach(bill => (bill.tipSplits || []).forEach(split => {
+    const name = split.technician.trim();
+    if (name && !names.has(name.toLowerCase())) names.set(name.toLowerCase(), name);
+  }));
+  return Array.from(names.values()).sort((a, b) => a.localeCompare(b, 'vi'));
+};
+
+// One line for the edit history: "Lan 50.000 ₫, Hoa 30.000 ₫"
+export const describeTipSplits = (splits: TipSplit[] | undefined): string | null =>
+  splits && splits.length > 0
+    ? splits.map(split => `${split.technician} ${formatCurrency(split.amount)}`).join(', ')
+    : null;
@@ -0,0 +1,120 @@
+import type { Bill, Booking, Customer } from '../types';
+import { createRepository, runTransaction, getMeta, META_KEYS } from './db';
+import { CURRENT_SCHEMA_VERSION, migrateDataSet } from './schema';
+import { buildAuditEntry, isAuditedEntity } from './audit';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export type TrashEntity = 'bills' | 'bookings' | 'customers';
+
+interface TrashRecordMap {
+  bills: Bill;
+  bookings: Booking;
+  customers: Customer;
+}
+
+export interface TrashEntry<E extends TrashEntity = TrashEntity> {
+  id: string; // `${entity}:${record id}`
+  entity: E;
+  record: TrashRecordMap[E];
+  deletedAt: string;
+  // Records deleted together (a customer with all their bills) share a group and are restored together
+  groupId: string;
+  schemaVersion: number;
+}
+
+const trashRepository = createRepository<TrashEntry>('trash');
+
+const trashEntryId = (entity: TrashEntity, recordId: string) => `${entity}:${recordId}`;
+
+export const createTrashGroupId = () => 'trash-' + Date.now() + Math.random().toString(36).substr(2, 9);
+
+// Puts a trash entry for the record, plus a 'delete' audit entry for bills and bookings.
+const putTrashEntry = (tx: IDBTransaction, entity: TrashEntity, record: Bill | Booking | Customer, deletedAt: string, groupId: string) => {
+  const entry: TrashEntry = {
+    id: trashEntryId(entity, record.id),
+    entity,
+    record,
+    deletedAt,
+    groupId,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+  };
+  tx.objectStore('trash').put(entry);
+  if (isAuditedEntity(entity)) {
+    tx.objectStore('auditLog').put(buildAuditEntry(entity, 'delete', record as Bill, undefined));
+  }
+};
+
+// Moves records from their store into the trash in a single transaction.
+// Bills and bookings also get a 'delete' entry in the audit log.
+export const moveToTrash = async (entity: TrashEntity, ids: string[], groupId = createTrashGroupId()): Promise<void> => {
+  const deletedAt = new Date().toISOString();
+  await runTransaction([entity, 'trash', 'auditLog'], (tx, writer) => {
+    const source = tx.objectStore(entity);
+    ids.forEach(id => {
+      const request = source.get(id);
+      request.onsuccess = () => {
+        if (!request.result) return;
+        putTrashEntry(tx, entity, request.result, deletedAt, groupId);
+        writer.delete(entity, id);
+      };
+    });
+  });
+};
+
+// Trashes records that aren't in their store, such as archived bills; the caller removes them from
+// wherever they are kept. Restoring them puts them in the store like any other entry.
+export const addToTrash = async <E extends TrashEntity>(entity: E, records: TrashRecordMap[E][], groupId = createTrashGroupId()): Promise<void> => {
+  const deletedAt = new Date().toISOString();
+  await runTransaction(['trash', 'auditLog'], tx => {
+    records.forEach(record => putTrashEntry(tx, entity, record, deletedAt, groupId));
+  });
+};
+
+export const listTrash = async (): Promise<TrashEntry[]> =>
+  (await trashRepository.getAll()).sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+// Puts the entries back into their stores. Entries trashed before a schema upgrade are migrated first.
+export const restoreFromTrash = async (entries: TrashEntry[]): Promise<void> => {
+  const upgraded = entries.map(entry => {
+    if (entry.schemaVersion >= CURRENT_SCHEMA_VERSION) return entry;
+    const data = migrateDataSet({
+      bills: entry.entity === 'bills' ? [entry.record as Bill] : [],
+      bookings: entry.entity === 'bookings' ? [entry.record as Booking] : [],
+      customers: entry.entity === 'customers' ? [entry.record as Customer] : [],
+      services: [],
+      categories: [],
+    }, entry.schemaVersion);
+    return { ...entry, record: data[entry.entity][0] };
+  });
+
+  const stores = Array.from(new Set(upgraded.map(entry => entry.entity)));
+  await runTransaction([...stores, 'trash', 'auditLog'], (tx, writer) => {
+    upgraded.forEach(entry => {
+      writer.put(entry.entity, entry.record);
+      tx.objectStore('trash').delete(entry.id);
+      if (isAuditedEntity(entry.entity)) {
+        tx.objectStore('auditLog').put(buildAuditEntry(entry.entity, 'restore', undefined, entry.record as Bill));
+      }
+    });
+  });
+};
+
+export const purgeTrashEntries = async (entryIds: string[]): Promise<void> => {
+  await runTransaction(['trash'], tx => {
+    const trash = tx.objectStore('trash');
+    entryIds.forEach(id => trash.delete(id));
+  });
+};
+
+export const getTrashRetentionDays = async (): Promise<number> =>
+  (await getMeta<number>(META_KEYS.trashRetentionDays)) || DEFAULT_TRASH_RETENTION_DAYS;
+
+// Permanently removes entries deleted more than `retentionDays` days ago.
+export const purgeExpiredTrash = async (retentionDays: number): Promise<void> => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  const expired = await trashRepository.getAllByIndex('deletedAt', IDBKeyRange.upperBound(cutoff, true));
+  if (expired.length > 0) {
+    await purgeTrashEntries(expired.map(entry => entry.id));
+  }
+};